@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { BaseExtractor } from '../../extractors/base';
-import { Content } from '../../types';
+import { Attachment, Content, ContentItem, ItemLink } from '../../types';
 
 // Create a concrete implementation for testing
 class TestExtractor extends BaseExtractor {
@@ -28,6 +28,53 @@ class TestExtractor extends BaseExtractor {
   public testGenerateId(content: string): string {
     return this.generateId(content);
   }
+
+  public testCreateItemId(text: string, options?: { nativeId?: string | null; author?: string }): string {
+    return this.createItemId(text, options);
+  }
+
+  public testEnsureUniqueIds(items: ContentItem[]): void {
+    this.ensureUniqueIds(items);
+  }
+
+  public testLinkThread(items: ContentItem[]): void {
+    this.linkThread(items);
+  }
+
+  public testReconstructThread(items: ContentItem[], focal: ContentItem): void {
+    this.reconstructThread(items, focal);
+  }
+
+  public testQueryAllOwn(container: Element, selector: string, nestedSelector: string): Element[] {
+    return this.queryAllOwn(container, selector, nestedSelector);
+  }
+
+  public testParseCount(text: string | null | undefined): number | undefined {
+    return this.parseCount(text);
+  }
+
+  public testParseDate(value: string | null | undefined): string | undefined {
+    return this.parseDate(value);
+  }
+
+  public testCreateAttachment(media: Element, kind?: Attachment['kind']): Attachment | null {
+    return this.createAttachment(media, kind);
+  }
+
+  public testExtractLinks(element: Element): ItemLink[] | undefined {
+    return this.extractLinks(element);
+  }
+
+  public testUniqueAttachments(attachments: (Attachment | null)[]): Attachment[] | undefined {
+    return this.uniqueAttachments(attachments);
+  }
+}
+
+// Extractor with a site-specific set of expanders
+class ExpandingExtractor extends TestExtractor {
+  protected getExpanders(): Element[] {
+    return Array.from(document.querySelectorAll('.expander'));
+  }
 }
 
 describe('BaseExtractor', () => {
@@ -295,6 +342,334 @@ describe('BaseExtractor', () => {
     });
   });
 
+  describe('createItemId', () => {
+    it('should prefer native ids', () => {
+      expect(extractor.testCreateItemId('Some text', { nativeId: 'hn:123', author: 'pg' })).toBe('hn:123');
+    });
+
+    it('should hash the text together with the author', () => {
+      const anonymous = extractor.testCreateItemId('Some text');
+      const byAlice = extractor.testCreateItemId('Some text', { author: 'alice' });
+
+      expect(anonymous).toBe(extractor.testGenerateId('Some text'));
+      expect(byAlice).not.toBe(anonymous);
+      expect(byAlice).not.toBe(extractor.testCreateItemId('Some text', { author: 'bob' }));
+      expect(extractor.testCreateItemId('Some text', { nativeId: null, author: 'alice' })).toBe(byAlice);
+    });
+  });
+
+  describe('ensureUniqueIds', () => {
+    it('should suffix repeated ids with their occurrence', () => {
+      const items = ['a', 'b', 'a', 'a'].map(id => ({
+        id,
+        element: document.createElement('div'),
+        type: 'comment' as const,
+        selected: false
+      }));
+
+      extractor.testEnsureUniqueIds(items);
+
+      expect(items.map(item => item.id)).toEqual(['a', 'b', 'a-2', 'a-3']);
+    });
+  });
+
+  describe('parseCount', () => {
+    it('should parse plain and labelled counts', () => {
+      expect(extractor.testParseCount('243 points')).toBe(243);
+      expect(extractor.testParseCount('1,234 Likes. Like')).toBe(1234);
+      expect(extractor.testParseCount('-3')).toBe(-3);
+    });
+
+    it('should expand abbreviated counts', () => {
+      expect(extractor.testParseCount('1.2K')).toBe(1200);
+      expect(extractor.testParseCount('3M Views')).toBe(3000000);
+    });
+
+    it('should not read the first letter of a following word as a suffix', () => {
+      expect(extractor.testParseCount('5 boosts')).toBe(5);
+      expect(extractor.testParseCount('12 months ago')).toBe(12);
+      expect(extractor.testParseCount('2 km')).toBe(2);
+    });
+
+    it('should return undefined when there is no number', () => {
+      expect(extractor.testParseCount('discuss')).toBeUndefined();
+      expect(extractor.testParseCount(null)).toBeUndefined();
+    });
+  });
+
+  describe('parseDate', () => {
+    it('should normalize ISO timestamps', () => {
+      expect(extractor.testParseDate('2025-07-15T11:59:00.000Z')).toBe('2025-07-15T11:59:00.000Z');
+      expect(extractor.testParseDate('2024-01-02T03:04:05.678000+0000')).toBe('2024-01-02T03:04:05.678Z');
+    });
+
+    it('should read zone-less timestamps as UTC', () => {
+      expect(extractor.testParseDate('2023-08-02T10:20:49')).toBe('2023-08-02T10:20:49.000Z');
+    });
+
+    it('should parse unix timestamps in seconds', () => {
+      expect(extractor.testParseDate('1690971649')).toBe('2023-08-02T10:20:49.000Z');
+    });
+
+    it('should return undefined for invalid dates', () => {
+      expect(extractor.testParseDate('yesterday')).toBeUndefined();
+      expect(extractor.testParseDate('')).toBeUndefined();
+    });
+  });
+
+  describe('linkThread', () => {
+    const createItem = (id: string, depth?: number, parentId?: string): ContentItem => ({
+      id,
+      element: document.createElement('div'),
+      type: depth === 0 ? 'post' : 'comment',
+      selected: false,
+      depth,
+      parentId
+    });
+
+    it('should assign parents from depths in document order', () => {
+      const items = [
+        createItem('post', 0),
+        createItem('a', 1),
+        createItem('a1', 2),
+        createItem('a1x', 3),
+        createItem('a2', 2),
+        createItem('b', 1)
+      ];
+
+      extractor.testLinkThread(items);
+
+      expect(items.map(item => item.parentId)).toEqual([undefined, 'post', 'a', 'a1', 'a', 'post']);
+      expect(items[0].childIds).toEqual(['a', 'b']);
+      expect(items[1].childIds).toEqual(['a1', 'a2']);
+      expect(items[5].childIds).toEqual([]);
+    });
+
+    it('should attach replies to the closest extracted ancestor when levels are missing', () => {
+      const items = [createItem('post', 0), createItem('deep', 3)];
+
+      extractor.testLinkThread(items);
+
+      expect(items[1].parentId).toBe('post');
+    });
+
+    it('should keep explicit parents', () => {
+      const items = [createItem('a', 1), createItem('b', 1), createItem('reply', 2, 'a')];
+
+      extractor.testLinkThread(items);
+
+      expect(items[2].parentId).toBe('a');
+      expect(items[0].childIds).toEqual(['reply']);
+      expect(items[1].childIds).toEqual([]);
+    });
+
+    it('should leave items without depth unlinked', () => {
+      const items = [createItem('post', 0), createItem('loose')];
+
+      extractor.testLinkThread(items);
+
+      expect(items[1].parentId).toBeUndefined();
+      expect(items[0].childIds).toEqual([]);
+    });
+  });
+
+  describe('reconstructThread', () => {
+    const createItem = (id: string): ContentItem => ({
+      id,
+      element: document.createElement('div'),
+      type: 'post',
+      selected: false,
+      depth: 0
+    });
+
+    it('should chain the ancestors down to the focal item and attach the rest to it', () => {
+      const items = [createItem('root'), createItem('parent'), createItem('focal'), createItem('reply'), createItem('other')];
+
+      extractor.testReconstructThread(items, items[2]);
+
+      expect(items.map(item => item.type)).toEqual(['post', 'comment', 'comment', 'comment', 'comment']);
+      expect(items.map(item => item.parentId)).toEqual([undefined, 'root', 'parent', 'focal', 'focal']);
+      expect(items.map(item => item.depth)).toEqual([0, 1, 2, 3, 3]);
+    });
+
+    it('should attach every other item to a focal root', () => {
+      const items = [createItem('focal'), createItem('reply'), createItem('other')];
+
+      extractor.testReconstructThread(items, items[0]);
+
+      expect(items[0]).toMatchObject({ type: 'post', depth: 0 });
+      expect(items.map(item => item.parentId)).toEqual([undefined, 'focal', 'focal']);
+    });
+  });
+
+  describe('queryAllOwn', () => {
+    it('should leave out matches inside nested items', () => {
+      document.body.innerHTML = `
+        <article id="post">
+          <p class="text">Own text</p>
+          <blockquote class="quote"><p class="text">Quoted text</p></blockquote>
+        </article>
+      `;
+
+      const matches = extractor.testQueryAllOwn(document.getElementById('post')!, '.text', '.quote');
+
+      expect(matches.map(match => match.textContent)).toEqual(['Own text']);
+    });
+
+    it('should find the matches of a nested item queried itself', () => {
+      document.body.innerHTML = `
+        <article>
+          <blockquote class="quote" id="quote"><p class="text">Quoted text</p></blockquote>
+        </article>
+      `;
+
+      const matches = extractor.testQueryAllOwn(document.getElementById('quote')!, '.text', '.quote');
+
+      expect(matches.map(match => match.textContent)).toEqual(['Quoted text']);
+    });
+  });
+
+  describe('createAttachment', () => {
+    const media = (html: string) => {
+      document.body.innerHTML = html;
+      return document.body.firstElementChild!;
+    };
+
+    it('should describe images with their alt text and size', () => {
+      expect(extractor.testCreateAttachment(media('<img src="https://example.com/a.png" alt=" A chart " width="640" height="480">'))).toEqual({
+        kind: 'image',
+        src: 'https://example.com/a.png',
+        alt: 'A chart',
+        width: 640,
+        height: 480,
+        poster: undefined
+      });
+    });
+
+    it('should prefer the source of lazy-loaded images and skip inline placeholders', () => {
+      expect(extractor.testCreateAttachment(media('<img src="data:image/gif;base64,R0lGOD" data-src="https://example.com/lazy.png">'))!.src)
+        .toBe('https://example.com/lazy.png');
+      expect(extractor.testCreateAttachment(media('<img src="data:image/gif;base64,R0lGOD">'))).toBeNull();
+      expect(extractor.testCreateAttachment(media('<img alt="No source">'))).toBeNull();
+    });
+
+    it('should describe videos with their source and poster', () => {
+      const attachment = extractor.testCreateAttachment(media(
+        '<video poster="https://example.com/poster.jpg"><source src="https://example.com/clip.mp4" type="video/mp4"></video>'
+      ));
+
+      expect(attachment).toMatchObject({
+        kind: 'video',
+        src: 'https://example.com/clip.mp4',
+        poster: 'https://example.com/poster.jpg'
+      });
+    });
+
+    it('should merge repeated sources and drop empty results', () => {
+      const image: Attachment = { kind: 'image', src: 'https://example.com/a.png', alt: undefined };
+      const video: Attachment = { kind: 'video', src: 'https://example.com/b.mp4' };
+
+      expect(extractor.testUniqueAttachments([image, video, null, { ...image, alt: 'Described', width: 10 }])).toEqual([
+        { kind: 'image', src: 'https://example.com/a.png', alt: 'Described', width: 10 },
+        video
+      ]);
+      expect(image.alt).toBeUndefined();
+      expect(extractor.testUniqueAttachments([null])).toBeUndefined();
+    });
+  });
+
+  describe('extractLinks', () => {
+    it('should extract links with their text and whether they stay on the site', () => {
+      const element = document.createElement('div');
+      element.innerHTML = `
+        See <a href="/item?id=1">the  other
+        thread</a> and <a href="https://example.com/post">this post</a>.
+        <a href="#top">Top</a> <a href="javascript:void(0)">reply</a> <a href="mailto:a@example.com">mail</a>
+      `;
+
+      expect(extractor.testExtractLinks(element)).toEqual([
+        { href: 'http://localhost:3000/item?id=1', text: 'the other thread', canonicalUrl: undefined, internal: true },
+        { href: 'https://example.com/post', text: 'this post', canonicalUrl: undefined, internal: false }
+      ]);
+    });
+
+    it('should reveal the target of shortened links from their text or title', () => {
+      const element = document.createElement('div');
+      element.innerHTML = `
+        <a href="https://t.co/abc"><span style="display: none">https://</span>example.com/a/long/pa<span style="display: none">th?x=1</span><span>…</span></a>
+        <a href="https://t.co/def" title="https://example.org/full">example.org/fu…</a>
+        <a href="https://github.com/user/repo/blob/main/README.md">README.md</a>
+        <a href="https://example.net/page">https://example.net/page</a>
+      `;
+
+      const links = extractor.testExtractLinks(element)!;
+
+      expect(links.map(link => link.canonicalUrl)).toEqual([
+        'https://example.com/a/long/path?x=1',
+        'https://example.org/full',
+        undefined,
+        undefined
+      ]);
+      expect(links[0].text).toBe('https://example.com/a/long/path?x=1…');
+      expect(links[0].internal).toBe(false);
+    });
+
+    it('should count subdomains of the page as internal', () => {
+      const element = document.createElement('div');
+      element.innerHTML = '<a href="http://www.localhost:3000/a">www</a>';
+
+      expect(extractor.testExtractLinks(element)![0].internal).toBe(true);
+      expect(extractor.testExtractLinks(document.createElement('div'))).toBeUndefined();
+    });
+  });
+
+  describe('expand', () => {
+    it('should not click anything by default', async () => {
+      document.body.innerHTML = '<button class="expander">Show more</button>';
+
+      expect(await extractor.expand({ settleTime: 1 })).toBe(0);
+    });
+
+    it('should click expanders revealed by earlier clicks', async () => {
+      document.body.innerHTML = '<button class="expander" id="first">Show more</button>';
+      const first = document.getElementById('first')!;
+      first.addEventListener('click', () => {
+        const nested = document.createElement('button');
+        nested.className = 'expander';
+        nested.addEventListener('click', () => nested.remove());
+        document.body.appendChild(nested);
+      });
+
+      const clicked = await new ExpandingExtractor(false).expand({ settleTime: 5 });
+
+      expect(clicked).toBe(2);
+      expect(document.querySelectorAll('.expander')).toHaveLength(1);
+    });
+
+    it('should skip hidden expanders', async () => {
+      document.body.innerHTML = '<button class="expander" style="display: none;">Show more</button>';
+
+      expect(await new ExpandingExtractor(false).expand({ settleTime: 1 })).toBe(0);
+    });
+
+    it('should stop when the time budget is spent', async () => {
+      // Every click reveals another expander, only the timeout ends this
+      const addExpander = () => {
+        const expander = document.createElement('button');
+        expander.className = 'expander';
+        expander.addEventListener('click', addExpander);
+        document.body.appendChild(expander);
+      };
+      addExpander();
+
+      const started = Date.now();
+      const clicked = await new ExpandingExtractor(false).expand({ timeout: 100, settleTime: 5 });
+
+      expect(clicked).toBeGreaterThan(0);
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
   describe('abstract extract method', () => {
     it('should be implemented by concrete class', async () => {
       const result = await extractor.extract();
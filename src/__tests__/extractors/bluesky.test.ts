@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BlueskyExtractor } from '../../extractors/bluesky';
+
+const THREAD_URL = 'https://bsky.app/profile/bob.bsky.social/post/3kfocal';
+
+// Mock window.location
+Object.defineProperty(window, 'location', {
+  value: {
+    href: THREAD_URL
+  },
+  writable: true
+});
+
+describe('BlueskyExtractor', () => {
+  let extractor: BlueskyExtractor;
+
+  beforeEach(() => {
+    extractor = new BlueskyExtractor(false);
+    // Reset DOM
+    document.body.innerHTML = '';
+    document.title = '@bob.bsky.social on Bluesky';
+
+    // Mock DOM APIs for visibility checking
+    Element.prototype.getBoundingClientRect = vi.fn(() => ({
+      width: 100, height: 50, top: 0, left: 0, right: 100, bottom: 50, x: 0, y: 0, toJSON: () => {}
+    }));
+    Object.defineProperty(HTMLElement.prototype, 'offsetParent', {
+      get() { return document.body; }, configurable: true
+    });
+    window.getComputedStyle = vi.fn(() => ({
+      display: 'block', visibility: 'visible'
+    } as CSSStyleDeclaration));
+  });
+
+  it('should extract basic page information', async () => {
+    const result = await extractor.extract();
+
+    expect(result.pageURL).toBe(THREAD_URL);
+    expect(result.title).toBe('@bob.bsky.social on Bluesky');
+    expect(result.items).toEqual([]);
+  });
+
+  it('should extract the focal post with its handle, display name, date and counts', async () => {
+    document.body.innerHTML = `
+      <div data-testid="postThreadItem-by-bob.bsky.social">
+        <a href="/profile/bob.bsky.social" aria-label="Bob's avatar"><img src="https://cdn.bsky.app/img/avatar_thumbnail/plain/did/bob.bsky.social@jpeg"></a>
+        <a href="/profile/bob.bsky.social"><span>Bob</span> <span>@bob.bsky.social</span></a>
+        <div data-testid="postText">The focal post of the thread.</div>
+        <div><span>February 3, 2024 at 12:00 PM</span></div>
+        <div>
+          <a href="/profile/bob.bsky.social/post/3kfocal/reposted-by"><span>1,204</span> reposts</a>
+          <a href="/profile/bob.bsky.social/post/3kfocal/liked-by"><span>3.4K</span> likes</a>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({
+      id: 'bluesky:bob.bsky.social/3kfocal',
+      type: 'post',
+      depth: 0,
+      textContent: 'The focal post of the thread.',
+      URL: THREAD_URL,
+      metadata: {
+        author: 'bob.bsky.social',
+        authorName: 'Bob',
+        authorUrl: 'https://bsky.app/profile/bob.bsky.social',
+        createdAt: new Date('February 3, 2024 12:00 PM').toISOString(),
+        reposts: 1204,
+        likes: 3400
+      }
+    });
+  });
+
+  it('should chain the parents to the focal post and attach replies to it', async () => {
+    document.body.innerHTML = `
+      <div data-testid="postThreadItem-by-alice.bsky.social">
+        <a href="/profile/alice.bsky.social" aria-label="Alice's avatar"><img src="https://cdn.bsky.app/img/avatar_thumbnail/plain/did/alice.bsky.social@jpeg"></a>
+        <a href="/profile/alice.bsky.social"><span>Alice</span> <span>@alice.bsky.social</span></a>
+        <a href="/profile/alice.bsky.social/post/3kroot" data-tooltip="February 3, 2024 at 10:15 AM" aria-label="February 3, 2024 at 10:15 AM">2h</a>
+        <div data-testid="postText">The root of the thread.</div>
+      </div>
+      <div data-testid="postThreadItem-by-carol.example.com">
+        <a href="/profile/carol.example.com" aria-label="Carol's avatar"><img src="https://cdn.bsky.app/img/avatar_thumbnail/plain/did/carol.example.com@jpeg"></a>
+        <a href="/profile/carol.example.com"><span>Carol</span> <span>@carol.example.com</span></a>
+        <a href="/profile/carol.example.com/post/3kparent" data-tooltip="February 3, 2024 at 10:15 AM" aria-label="February 3, 2024 at 10:15 AM">2h</a>
+        <div data-testid="postText">A reply to the root.</div>
+      </div>
+      <div data-testid="postThreadItem-by-bob.bsky.social">
+        <a href="/profile/bob.bsky.social" aria-label="Bob's avatar"><img src="https://cdn.bsky.app/img/avatar_thumbnail/plain/did/bob.bsky.social@jpeg"></a>
+        <a href="/profile/bob.bsky.social"><span>Bob</span> <span>@bob.bsky.social</span></a>
+        <div data-testid="postText">The focal post of the thread.</div>
+        <div><span>February 3, 2024 at 12:00 PM</span></div>
+        <div>
+          <a href="/profile/bob.bsky.social/post/3kfocal/reposted-by"><span>1,204</span> reposts</a>
+          <a href="/profile/bob.bsky.social/post/3kfocal/liked-by"><span>3.4K</span> likes</a>
+        </div>
+      </div>
+      <div data-testid="postThreadItem-by-dave.bsky.social">
+        <a href="/profile/dave.bsky.social" aria-label="Dave's avatar"><img src="https://cdn.bsky.app/img/avatar_thumbnail/plain/did/dave.bsky.social@jpeg"></a>
+        <a href="/profile/dave.bsky.social"><span>Dave</span> <span>@dave.bsky.social</span></a>
+        <a href="/profile/dave.bsky.social/post/3kreply" data-tooltip="February 3, 2024 at 10:15 AM" aria-label="February 3, 2024 at 10:15 AM">2h</a>
+        <div data-testid="postText">A reply to the focal post.</div>
+        <div>
+          <button data-testid="replyBtn" aria-label="Reply (4 replies)">4</button>
+          <button data-testid="repostBtn" aria-label="Repost (5 reposts)"><span data-testid="repostCount">5</span></button>
+          <button data-testid="likeBtn" aria-label="Like (6 likes)"><span data-testid="likeCount">6</span></button>
+        </div>
+      </div>
+      <div data-testid="postThreadItem-by-erin.bsky.social">
+        <a href="/profile/erin.bsky.social" aria-label="Erin's avatar"><img src="https://cdn.bsky.app/img/avatar_thumbnail/plain/did/erin.bsky.social@jpeg"></a>
+        <a href="/profile/erin.bsky.social"><span>Erin</span> <span>@erin.bsky.social</span></a>
+        <a href="/profile/erin.bsky.social/post/3kother" data-tooltip="February 3, 2024 at 10:15 AM" aria-label="February 3, 2024 at 10:15 AM">2h</a>
+        <div data-testid="postText">Another reply to the focal post.</div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+    const [root, parent, focal, reply, other] = result.items;
+
+    expect(result.items.map(item => item.id)).toEqual([
+      'bluesky:alice.bsky.social/3kroot',
+      'bluesky:carol.example.com/3kparent',
+      'bluesky:bob.bsky.social/3kfocal',
+      'bluesky:dave.bsky.social/3kreply',
+      'bluesky:erin.bsky.social/3kother'
+    ]);
+    expect(root).toMatchObject({ type: 'post', depth: 0, childIds: [parent.id] });
+    expect(parent).toMatchObject({ type: 'comment', parentId: root.id, depth: 1 });
+    expect(focal).toMatchObject({ type: 'comment', parentId: parent.id, depth: 2, childIds: [reply.id, other.id] });
+    expect(reply).toMatchObject({
+      type: 'comment',
+      parentId: focal.id,
+      depth: 3,
+      URL: 'http://localhost:3000/profile/dave.bsky.social/post/3kreply',
+      metadata: {
+        author: 'dave.bsky.social',
+        authorName: 'Dave',
+        createdAt: new Date('February 3, 2024 10:15 AM').toISOString(),
+        replies: 4,
+        reposts: 5,
+        likes: 6
+      }
+    });
+    expect(other).toMatchObject({ parentId: focal.id, depth: 3 });
+  });
+
+  it('should find a focal post without likes or reposts', async () => {
+    document.body.innerHTML = `
+      <div data-testid="postThreadItem-by-alice.bsky.social">
+        <a href="/profile/alice.bsky.social"><span>Alice</span> <span>@alice.bsky.social</span></a>
+        <a href="/profile/alice.bsky.social/post/3kroot" data-tooltip="February 3, 2024 at 10:15 AM">2h</a>
+        <div data-testid="postText">The root of the thread.</div>
+        <button data-testid="likeBtn" aria-label="Like (2 likes)"><span data-testid="likeCount">2</span></button>
+      </div>
+      <div data-testid="postThreadItem-by-bob.bsky.social">
+        <a href="/profile/bob.bsky.social"><span>Bob</span> <span>@bob.bsky.social</span></a>
+        <div data-testid="postText">A focal post nobody liked yet.</div>
+        <div><span>February 3, 2024 at 12:00 PM</span></div>
+      </div>
+      <div data-testid="postThreadItem-by-dave.bsky.social">
+        <a href="/profile/dave.bsky.social"><span>Dave</span> <span>@dave.bsky.social</span></a>
+        <a href="/profile/dave.bsky.social/post/3kreply" data-tooltip="February 3, 2024 at 12:30 PM">1h</a>
+        <div data-testid="postText">A reply to the focal post.</div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items.map(({ id, type, parentId, depth }) => ({ id, type, parentId, depth }))).toEqual([
+      { id: 'bluesky:alice.bsky.social/3kroot', type: 'post', parentId: undefined, depth: 0 },
+      { id: 'bluesky:bob.bsky.social/3kfocal', type: 'comment', parentId: 'bluesky:alice.bsky.social/3kroot', depth: 1 },
+      { id: 'bluesky:dave.bsky.social/3kreply', type: 'comment', parentId: 'bluesky:bob.bsky.social/3kfocal', depth: 2 }
+    ]);
+    expect(result.items[1].URL).toBe(THREAD_URL);
+    expect(result.items[1].metadata).toMatchObject({ likes: undefined, reposts: undefined });
+  });
+
+  it('should find the focal post of a thread opened by DID', async () => {
+    window.location.href = 'https://bsky.app/profile/did:plc:bob123/post/3kfocal';
+    try {
+      document.body.innerHTML = `
+        <div data-testid="postThreadItem-by-bob.bsky.social">
+          <a href="/profile/bob.bsky.social"><span>Bob</span> <span>@bob.bsky.social</span></a>
+          <div data-testid="postText">A focal post opened by its DID link.</div>
+        </div>
+        <div data-testid="postThreadItem-by-dave.bsky.social">
+          <a href="/profile/dave.bsky.social"><span>Dave</span> <span>@dave.bsky.social</span></a>
+          <a href="/profile/dave.bsky.social/post/3kreply" data-tooltip="February 3, 2024 at 12:30 PM">1h</a>
+          <div data-testid="postText">A reply to the focal post.</div>
+        </div>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items[0]).toMatchObject({ id: 'bluesky:bob.bsky.social/3kfocal', type: 'post', depth: 0 });
+      expect(result.items[1]).toMatchObject({ type: 'comment', parentId: result.items[0].id, depth: 1 });
+    } finally {
+      window.location.href = THREAD_URL;
+    }
+  });
+
+  it('should nest quoted posts under the post quoting them', async () => {
+    document.body.innerHTML = `
+      <div data-testid="postThreadItem-by-bob.bsky.social">
+        <a href="/profile/bob.bsky.social" aria-label="Bob's avatar"><img src="https://cdn.bsky.app/img/avatar_thumbnail/plain/did/bob.bsky.social@jpeg"></a>
+        <a href="/profile/bob.bsky.social"><span>Bob</span> <span>@bob.bsky.social</span></a>
+        <div data-testid="postText">Look at this take.</div>
+        <div role="link" tabindex="0" aria-label="Post by frank.bsky.social">
+          <span>Frank</span> <span>@frank.bsky.social</span>
+          <a href="/profile/frank.bsky.social/post/3kquote" data-tooltip="February 2, 2024 at 9:00 AM">1d</a>
+          <div data-testid="postText">The quoted take, with an image.</div>
+          <img src="https://cdn.bsky.app/img/feed_thumbnail/plain/did/quoted@jpeg" alt="A chart">
+        </div>
+        <div><span>February 3, 2024 at 12:00 PM</span></div>
+        <div>
+          <a href="/profile/bob.bsky.social/post/3kfocal/reposted-by"><span>1,204</span> reposts</a>
+          <a href="/profile/bob.bsky.social/post/3kfocal/liked-by"><span>3.4K</span> likes</a>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+    const [focal, quote] = result.items;
+
+    expect(result.items).toHaveLength(2);
+    expect(focal.textContent).toBe('Look at this take.');
+    expect(focal.attachments).toBeUndefined();
+    expect(quote).toMatchObject({
+      id: 'bluesky:frank.bsky.social/3kquote',
+      parentId: focal.id,
+      depth: 1,
+      textContent: 'The quoted take, with an image.',
+      URL: 'http://localhost:3000/profile/frank.bsky.social/post/3kquote',
+      metadata: { author: 'frank.bsky.social', createdAt: new Date('February 2, 2024 9:00 AM').toISOString() },
+      attachments: [{ kind: 'image', src: 'https://cdn.bsky.app/img/feed_fullsize/plain/did/quoted@jpeg', alt: 'A chart' }]
+    });
+  });
+
+  it('should extract images at full size', async () => {
+    document.body.innerHTML = `
+      <div data-testid="postThreadItem-by-alice.bsky.social">
+        <a href="/profile/alice.bsky.social" aria-label="Alice's avatar"><img src="https://cdn.bsky.app/img/avatar_thumbnail/plain/did/alice.bsky.social@jpeg"></a>
+        <a href="/profile/alice.bsky.social"><span>Alice</span> <span>@alice.bsky.social</span></a>
+        <a href="/profile/alice.bsky.social/post/3kroot" data-tooltip="February 3, 2024 at 10:15 AM" aria-label="February 3, 2024 at 10:15 AM">2h</a>
+        <div data-testid="postText">Two photos.</div>
+        <img src="https://cdn.bsky.app/img/feed_thumbnail/plain/did/one@jpeg" alt="First photo">
+        <img src="https://cdn.bsky.app/img/feed_thumbnail/plain/did/two@jpeg" alt="">
+        <div>
+          <button data-testid="replyBtn" aria-label="Reply (4 replies)">4</button>
+          <button data-testid="repostBtn" aria-label="Repost (5 reposts)"><span data-testid="repostCount">5</span></button>
+          <button data-testid="likeBtn" aria-label="Like (6 likes)"><span data-testid="likeCount">6</span></button>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items[0].attachments).toEqual([
+      { kind: 'image', src: 'https://cdn.bsky.app/img/feed_fullsize/plain/did/one@jpeg', alt: 'First photo' },
+      { kind: 'image', src: 'https://cdn.bsky.app/img/feed_fullsize/plain/did/two@jpeg' }
+    ]);
+  });
+});
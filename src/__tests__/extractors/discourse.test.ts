@@ -0,0 +1,363 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DiscourseExtractor } from '../../extractors/discourse';
+
+// Mock window.location
+Object.defineProperty(window, 'location', {
+  value: {
+    href: 'https://forum.example.org/t/how-do-you-test-extractors/42'
+  },
+  writable: true
+});
+
+describe('DiscourseExtractor', () => {
+  let extractor: DiscourseExtractor;
+
+  beforeEach(() => {
+    extractor = new DiscourseExtractor(false);
+    // Reset DOM
+    document.body.innerHTML = '';
+    document.title = 'How do you test extractors? - Example Forum';
+
+    // Mock DOM APIs for visibility checking
+    Element.prototype.getBoundingClientRect = vi.fn(() => ({
+      width: 100, height: 50, top: 0, left: 0, right: 100, bottom: 50, x: 0, y: 0, toJSON: () => {}
+    }));
+    Object.defineProperty(HTMLElement.prototype, 'offsetParent', {
+      get() { return document.body; }, configurable: true
+    });
+    window.getComputedStyle = vi.fn(() => ({
+      display: 'block', visibility: 'visible'
+    } as CSSStyleDeclaration));
+  });
+
+  it('should extract basic page information', async () => {
+    const result = await extractor.extract();
+
+    expect(result.pageURL).toBe('https://forum.example.org/t/how-do-you-test-extractors/42');
+    expect(result.title).toBe('How do you test extractors? - Example Forum');
+    expect(result.items).toEqual([]);
+  });
+
+  it('should treat the first post as the topic post', async () => {
+    document.body.innerHTML = `
+      <div id="topic-title"><h1><a class="fancy-title" href="https://forum.example.org/t/how-do-you-test-extractors/42">How do you test extractors?</a></h1></div>
+      <div class="topic-post clearfix regular">
+        <article id="post_1" aria-label="post #1 by @alice" role="region" data-post-id="1001" data-topic-id="42" class="boxed onscreen-post">
+          <div class="row">
+            <div class="topic-body clearfix">
+              <div role="heading" class="topic-meta-data">
+                <div class="names trigger-user-card">
+                  <span class="first username"><a href="https://forum.example.org/u/alice" data-user-card="alice">alice</a></span>
+                  <span class="second full-name">Alice Example</span>
+                </div>
+                <div class="post-infos">
+                  <div class="post-info post-date">
+                    <a class="post-date" href="https://forum.example.org/t/how-do-you-test-extractors/42/1"><span title="Jan 2, 2024 9:04 am" data-time="1704186305000" class="relative-date">Jan 2</span></a>
+                  </div>
+                </div>
+              </div>
+              <div class="regular contents">
+                <div class="cooked"><p>I am looking for <a href="https://example.com/fixtures">fixture</a> strategies.</p></div>
+                <section class="post-menu-area clearfix">
+                  <nav class="post-controls">
+                    <button class="show-replies">2 Replies</button>
+                    <div class="actions">
+                      <button class="button-count like-count">12</button>
+                      <button class="toggle-like" title="like this post"></button>
+                    </div>
+                  </nav>
+                </section>
+              </div>
+            </div>
+          </div>
+        </article>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({
+      id: 'discourse:1001',
+      type: 'post',
+      depth: 0,
+      textContent: 'How do you test extractors?\n\nI am looking for fixture strategies.',
+      URL: 'https://forum.example.org/t/how-do-you-test-extractors/42/1',
+      links: [{ href: 'https://example.com/fixtures', text: 'fixture', internal: false }],
+      metadata: {
+        title: 'How do you test extractors?',
+        author: 'alice',
+        authorName: 'Alice Example',
+        authorUrl: 'https://forum.example.org/u/alice',
+        createdAt: '2024-01-02T09:05:05.000Z',
+        likes: 12,
+        replies: 2,
+        postNumber: 1
+      }
+    });
+  });
+
+  it('should link replies to the post they reply to, others to the topic', async () => {
+    document.body.innerHTML = `
+      <div class="topic-post clearfix regular">
+        <article id="post_1" aria-label="post #1 by @alice" role="region" data-post-id="1001" data-topic-id="42" class="boxed onscreen-post">
+          <div class="row">
+            <div class="topic-body clearfix">
+              <div role="heading" class="topic-meta-data">
+                <div class="names trigger-user-card">
+                  <span class="first username"><a href="https://forum.example.org/u/alice" data-user-card="alice">alice</a></span>
+                </div>
+                <div class="post-infos">
+                  <div class="post-info post-date">
+                    <a class="post-date" href="https://forum.example.org/t/how-do-you-test-extractors/42/1"><span title="Jan 2, 2024 9:04 am" data-time="1704186305000" class="relative-date">Jan 2</span></a>
+                  </div>
+                </div>
+              </div>
+              <div class="regular contents">
+                <div class="cooked"><p>The topic post with a question.</p></div>
+                <section class="post-menu-area clearfix">
+                  <nav class="post-controls">
+                    <div class="actions">
+                      <button class="toggle-like" title="like this post"></button>
+                    </div>
+                  </nav>
+                </section>
+              </div>
+            </div>
+          </div>
+        </article>
+      </div>
+      <div class="topic-post clearfix regular">
+        <article id="post_2" aria-label="post #2 by @bob" role="region" data-post-id="1002" data-topic-id="42" class="boxed onscreen-post">
+          <div class="row">
+            <div class="topic-body clearfix">
+              <div role="heading" class="topic-meta-data">
+                <div class="names trigger-user-card">
+                  <span class="first username"><a href="https://forum.example.org/u/bob" data-user-card="bob">bob</a></span>
+                </div>
+                <div class="post-infos">
+                  <div class="post-info post-date">
+                    <a class="post-date" href="https://forum.example.org/t/how-do-you-test-extractors/42/2"><span title="Jan 2, 2024 9:04 am" data-time="1704186365000" class="relative-date">Jan 2</span></a>
+                  </div>
+                </div>
+              </div>
+              <div class="regular contents">
+                <div class="cooked"><p>A reply to the topic itself.</p></div>
+                <section class="post-menu-area clearfix">
+                  <nav class="post-controls">
+                    <div class="actions">
+                      <button class="toggle-like" title="like this post"></button>
+                    </div>
+                  </nav>
+                </section>
+              </div>
+            </div>
+          </div>
+        </article>
+      </div>
+      <div class="topic-post clearfix regular">
+        <article id="post_3" aria-label="post #3 by @carol" role="region" data-post-id="1003" data-topic-id="42" class="boxed onscreen-post">
+          <div class="row">
+            <div class="topic-body clearfix">
+              <div role="heading" class="topic-meta-data">
+                <div class="names trigger-user-card">
+                  <span class="first username"><a href="https://forum.example.org/u/carol" data-user-card="carol">carol</a></span>
+                </div>
+                <div class="post-infos">
+                  <div class="post-info post-date">
+                    <a class="post-date" href="https://forum.example.org/t/how-do-you-test-extractors/42/3"><span title="Jan 2, 2024 9:04 am" data-time="1704186425000" class="relative-date">Jan 2</span></a>
+                  </div>
+                </div>
+              </div>
+              <div class="regular contents">
+                <div class="cooked"><p>Another answer to the topic.</p></div>
+                <section class="post-menu-area clearfix">
+                  <nav class="post-controls">
+                    <div class="actions">
+                      <button class="toggle-like" title="like this post"></button>
+                    </div>
+                  </nav>
+                </section>
+              </div>
+            </div>
+          </div>
+        </article>
+      </div>
+      <div class="topic-post clearfix regular">
+        <article id="post_4" aria-label="post #4 by @dave" role="region" data-post-id="1004" data-topic-id="42" class="boxed onscreen-post">
+          <div class="row">
+            <div class="topic-body clearfix">
+              <div role="heading" class="topic-meta-data">
+                <div class="names trigger-user-card">
+                  <span class="first username"><a href="https://forum.example.org/u/dave" data-user-card="dave">dave</a></span>
+                </div>
+                <a class="reply-to-tab" href="https://forum.example.org/t/how-do-you-test-extractors/42/2">↩ reply</a>
+                <div class="post-infos">
+                  <div class="post-info post-date">
+                    <a class="post-date" href="https://forum.example.org/t/how-do-you-test-extractors/42/4"><span title="Jan 2, 2024 9:04 am" data-time="1704186485000" class="relative-date">Jan 2</span></a>
+                  </div>
+                </div>
+              </div>
+              <div class="regular contents">
+                <div class="cooked"><p>Replying to the second post.</p></div>
+                <section class="post-menu-area clearfix">
+                  <nav class="post-controls">
+                    <div class="actions">
+                      <button class="toggle-like" title="like this post"></button>
+                    </div>
+                  </nav>
+                </section>
+              </div>
+            </div>
+          </div>
+        </article>
+      </div>
+      <div class="topic-post clearfix regular">
+        <article id="post_5" aria-label="post #5 by @erin" role="region" data-post-id="1005" data-topic-id="42" class="boxed onscreen-post">
+          <div class="row">
+            <div class="topic-body clearfix">
+              <div role="heading" class="topic-meta-data">
+                <div class="names trigger-user-card">
+                  <span class="first username"><a href="https://forum.example.org/u/erin" data-user-card="erin">erin</a></span>
+                </div>
+                <a class="reply-to-tab" href="https://forum.example.org/t/how-do-you-test-extractors/42/99">↩ reply</a>
+                <div class="post-infos">
+                  <div class="post-info post-date">
+                    <a class="post-date" href="https://forum.example.org/t/how-do-you-test-extractors/42/5"><span title="Jan 2, 2024 9:04 am" data-time="1704186545000" class="relative-date">Jan 2</span></a>
+                  </div>
+                </div>
+              </div>
+              <div class="regular contents">
+                <div class="cooked"><p>Replying to a post that is not loaded.</p></div>
+                <section class="post-menu-area clearfix">
+                  <nav class="post-controls">
+                    <div class="actions">
+                      <button class="toggle-like" title="like this post"></button>
+                    </div>
+                  </nav>
+                </section>
+              </div>
+            </div>
+          </div>
+        </article>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+    const [topic, second, third, fourth, fifth] = result.items;
+
+    expect(result.items.map(item => item.type)).toEqual(['post', 'comment', 'comment', 'comment', 'comment']);
+    expect(topic.childIds).toEqual([second.id, third.id, fifth.id]);
+    expect(second).toMatchObject({ parentId: topic.id, depth: 1, metadata: { postNumber: 2 } });
+    expect(third).toMatchObject({ parentId: topic.id, depth: 1 });
+    expect(fourth).toMatchObject({ parentId: second.id, depth: 2, metadata: { postNumber: 4, replyToPostNumber: 2 } });
+    expect(fifth).toMatchObject({ parentId: topic.id, depth: 1, metadata: { replyToPostNumber: 99 } });
+  });
+
+  it('should ignore posts embedded by the reply-to tab', async () => {
+    document.body.innerHTML = `
+      <div class="topic-post clearfix regular">
+        <article id="post_1" aria-label="post #1 by @alice" role="region" data-post-id="1001" data-topic-id="42" class="boxed onscreen-post">
+          <div class="row">
+            <div class="topic-body clearfix">
+              <div role="heading" class="topic-meta-data">
+                <div class="names trigger-user-card">
+                  <span class="first username"><a href="https://forum.example.org/u/alice" data-user-card="alice">alice</a></span>
+                </div>
+                <div class="post-infos">
+                  <div class="post-info post-date">
+                    <a class="post-date" href="https://forum.example.org/t/how-do-you-test-extractors/42/1"><span title="Jan 2, 2024 9:04 am" data-time="1704186305000" class="relative-date">Jan 2</span></a>
+                  </div>
+                </div>
+              </div>
+              <div class="regular contents">
+                <div class="cooked"><p>The topic post with a question.</p></div>
+                <section class="post-menu-area clearfix">
+                  <nav class="post-controls">
+                    <div class="actions">
+                      <button class="toggle-like" title="like this post"></button>
+                    </div>
+                  </nav>
+                </section>
+              </div>
+            </div>
+          </div>
+        </article>
+      </div>
+      <div class="topic-post clearfix regular">
+        <article id="post_2" aria-label="post #2 by @bob" role="region" data-post-id="1002" data-topic-id="42" class="boxed onscreen-post">
+          <div class="row">
+            <div class="topic-body clearfix">
+              <div role="heading" class="topic-meta-data">
+                <div class="names trigger-user-card">
+                  <span class="first username"><a href="https://forum.example.org/u/bob" data-user-card="bob">bob</a></span>
+                </div>
+                <a class="reply-to-tab" href="https://forum.example.org/t/how-do-you-test-extractors/42/1">↩ reply</a>
+                <div class="post-infos">
+                  <div class="post-info post-date">
+                    <a class="post-date" href="https://forum.example.org/t/how-do-you-test-extractors/42/2"><span title="Jan 2, 2024 9:04 am" data-time="1704186365000" class="relative-date">Jan 2</span></a>
+                  </div>
+                </div>
+              </div>
+              <section class="embedded-posts top topic-body"><div class="names"><span class="username"><a href="https://forum.example.org/u/alice">alice</a></span></div><div class="cooked"><p>The topic post with a question.</p></div></section>
+              <div class="regular contents">
+                <div class="cooked"><p>Replying with an expanded tab.</p></div>
+                <section class="post-menu-area clearfix">
+                  <nav class="post-controls">
+                    <div class="actions">
+                      <button class="toggle-like" title="like this post"></button>
+                    </div>
+                  </nav>
+                </section>
+              </div>
+            </div>
+          </div>
+        </article>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items[1]).toMatchObject({
+      textContent: 'Replying with an expanded tab.',
+      metadata: { author: 'bob' }
+    });
+  });
+
+  it('should include the cooked HTML when includeHtml is true', async () => {
+    document.body.innerHTML = `
+      <div class="topic-post clearfix regular">
+        <article id="post_1" aria-label="post #1 by @alice" role="region" data-post-id="1001" data-topic-id="42" class="boxed onscreen-post">
+          <div class="row">
+            <div class="topic-body clearfix">
+              <div role="heading" class="topic-meta-data">
+                <div class="names trigger-user-card">
+                  <span class="first username"><a href="https://forum.example.org/u/alice" data-user-card="alice">alice</a></span>
+                </div>
+                <div class="post-infos">
+                  <div class="post-info post-date">
+                    <a class="post-date" href="https://forum.example.org/t/how-do-you-test-extractors/42/1"><span title="Jan 2, 2024 9:04 am" data-time="1704186305000" class="relative-date">Jan 2</span></a>
+                  </div>
+                </div>
+              </div>
+              <div class="regular contents">
+                <div class="cooked"><p>Post with <strong>bold</strong> text.</p></div>
+                <section class="post-menu-area clearfix">
+                  <nav class="post-controls">
+                    <div class="actions">
+                      <button class="toggle-like" title="like this post"></button>
+                    </div>
+                  </nav>
+                </section>
+              </div>
+            </div>
+          </div>
+        </article>
+      </div>
+    `;
+
+    const result = await new DiscourseExtractor(true).extract();
+
+    expect(result.items[0].htmlContent).toBe('<p>Post with <strong>bold</strong> text.</p>');
+  });
+});
@@ -162,23 +162,88 @@ describe('GenericExtractor', () => {
       expect(result.items[0].textContent).toContain('This is entry content');
     });
 
-    it('should prioritize earlier selectors', async () => {
+    it('should pick the container with the most article text', async () => {
       document.body.innerHTML = `
+        <div class="teaser">
+          <p>A short teaser paragraph above the actual article.</p>
+        </div>
         <article>
-          <p>This is article content that should be extracted first by the generic extractor.</p>
+          <p>The first paragraph of the article, which is long, has commas, and goes on for a while to describe things.</p>
+          <p>The second paragraph of the article adds more detail, more commas, and even more words to the story.</p>
         </article>
-        <div class="content">
-          <p>This is content class div that should not be extracted since article was found first.</p>
-        </div>
       `;
-      
+
       const result = await extractor.extract();
-      
+
       expect(result.items).toHaveLength(1);
-      expect(result.items[0].textContent).toContain('This is article content');
+      expect(result.items[0].textContent).toContain('The first paragraph of the article');
+      expect(result.items[0].textContent).not.toContain('teaser');
       expect(result.items[0].element.tagName).toBe('ARTICLE');
     });
 
+    it('should find the article body of a blog page and strip its boilerplate', async () => {
+      document.body.innerHTML = `
+        <div class="cookie-banner"><p>We use cookies to improve your experience, by continuing you accept our cookie policy.</p></div>
+        <header class="site-header"><nav><a href="/">Home</a> <a href="/about">About</a> <a href="/archive">Archive</a></nav></header>
+        <div id="wrapper">
+          <div class="post-body">
+            <h1>How we made the build faster</h1>
+            <div class="share-bar"><a href="https://twitter.com/share">Share on Twitter</a> <a href="https://facebook.com/share">Share on Facebook</a></div>
+            <p>Our build used to take twelve minutes, which was slow, annoying, and expensive for everyone on the team.</p>
+            <p>We started by measuring every step, then cached dependencies, split the test suite, and removed dead code.</p>
+            <p style="display: none">Hidden text that is only shown to logged in readers of this blog.</p>
+            <p>In the end the build takes three minutes, and nobody has complained about it since, at least not yet.</p>
+          </div>
+          <div class="sidebar"><p>About the author: a developer who writes about builds, tooling, and other things.</p></div>
+        </div>
+        <footer><p>Copyright 2024 Example Blog, all rights reserved, including the right to be boring.</p></footer>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].element.className).toBe('post-body');
+      expect(result.items[0].textContent).toContain('How we made the build faster');
+      expect(result.items[0].textContent).toContain('nobody has complained');
+      ['Share on Twitter', 'Hidden text', 'cookies', 'About the author', 'Copyright', 'Archive'].forEach(boilerplate => {
+        expect(result.items[0].textContent).not.toContain(boilerplate);
+      });
+      expect(result.items[0].links).toBeUndefined();
+      // The page itself is left as it was
+      expect(document.querySelector('.share-bar')).not.toBeNull();
+    });
+
+    it('should not pick link-heavy containers', async () => {
+      document.body.innerHTML = `
+        <div class="links">
+          <div><a href="/a">A list of links that looks like text, with commas, commas, and more commas</a></div>
+          <div><a href="/b">Another link that looks like text, with commas, commas, and more commas</a></div>
+          <div><a href="/c">A third link that looks like text, with commas, commas, and more commas</a></div>
+        </div>
+        <div class="story">
+          <p>The actual story is here, and it is long enough to be worth reading, at least for a while.</p>
+        </div>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].element.className).toBe('story');
+    });
+
+    it('should leave boilerplate out of the paragraph fallback', async () => {
+      document.body.innerHTML = `
+        <p>This is a long paragraph that should be extracted as fallback content by the generic extractor.</p>
+        <p>This is another long paragraph that should also be extracted by the generic extractor.</p>
+        <footer><p>This footer paragraph is long enough but is boilerplate and should not be extracted.</p></footer>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items.map(item => item.element.tagName)).toEqual(['P', 'P']);
+      expect(result.items.some(item => item.textContent!.includes('footer'))).toBe(false);
+    });
+
     it('should fall back to paragraphs when no main content found', async () => {
       document.body.innerHTML = `
         <p>This is a long paragraph that should be extracted as fallback content by the generic extractor.</p>
@@ -320,5 +385,175 @@ describe('GenericExtractor', () => {
       expect(result.items[0].textContent).toContain('List item one');
       expect(result.items[0].textContent).toContain('List item two');
     });
+
+    it('should extract figures, images with alt text and videos as attachments', async () => {
+      document.body.innerHTML = `
+        <article>
+          <p>An article illustrated with a few pictures and a clip.</p>
+          <img src="/icons/share.svg" width="16" height="16">
+          <figure>
+            <img src="/images/chart.png" width="800" height="600">
+            <figcaption>Growth over the last year</figcaption>
+          </figure>
+          <img src="/images/team.jpg" alt="The team at the offsite">
+          <video src="/media/demo.mp4" poster="/media/demo.jpg"></video>
+        </article>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items[0].attachments).toEqual([
+        { kind: 'image', src: 'http://localhost:3000/images/chart.png', alt: 'Growth over the last year', width: 800, height: 600 },
+        { kind: 'image', src: 'http://localhost:3000/images/team.jpg', alt: 'The team at the offsite' },
+        { kind: 'video', src: 'http://localhost:3000/media/demo.mp4', poster: 'http://localhost:3000/media/demo.jpg' }
+      ]);
+    });
+
+    it('should leave attachments undefined for text-only content', async () => {
+      document.body.innerHTML = '<article><p>Only text in this article, nothing else.</p></article>';
+
+      const result = await extractor.extract();
+
+      expect(result.items[0].attachments).toBeUndefined();
+    });
   });
-});
\ No newline at end of file
+
+  describe('comments', () => {
+    const article = `
+      <article>
+        <h1>A blog post</h1>
+        <p>The article text, long enough to be picked as the main content of the page, with commas, too.</p>
+        <p>Another paragraph of the article, which also has a few commas, and keeps going for a while.</p>
+      </article>
+    `;
+
+    it('should extract WordPress comment lists with nested replies', async () => {
+      document.body.innerHTML = `
+        ${article}
+        <div id="comments">
+          <ol class="commentlist">
+            <li class="comment" id="comment-1">
+              <article class="comment-body">
+                <footer class="comment-meta">
+                  <div class="comment-author vcard"><b class="fn"><a href="https://alice.example/">Alice</a></b> <span class="says">says:</span></div>
+                  <div class="comment-metadata"><a href="https://example.com/test#comment-1"><time datetime="2024-03-01T10:00:00+00:00">March 1, 2024</time></a></div>
+                </footer>
+                <div class="comment-content"><p>Great post, thanks for writing it.</p></div>
+              </article>
+              <ul class="children">
+                <li class="comment" id="comment-2">
+                  <article class="comment-body">
+                    <footer class="comment-meta">
+                      <div class="comment-author vcard"><b class="fn">Bob</b></div>
+                      <div class="comment-metadata"><a href="https://example.com/test#comment-2"><time datetime="2024-03-01T11:00:00+00:00">March 1, 2024</time></a></div>
+                    </footer>
+                    <div class="comment-content"><p>Agreed, a very useful article.</p></div>
+                  </article>
+                </li>
+              </ul>
+            </li>
+            <li class="comment" id="comment-3">
+              <article class="comment-body">
+                <footer class="comment-meta"><div class="comment-author vcard"><b class="fn">Carol</b></div></footer>
+                <div class="comment-content"><p>I have a question about this.</p></div>
+              </article>
+            </li>
+          </ol>
+        </div>
+      `;
+
+      const result = await extractor.extract();
+      const [post, alice, bob, carol] = result.items;
+
+      expect(result.items.map(item => item.type)).toEqual(['post', 'comment', 'comment', 'comment']);
+      expect(post.textContent).not.toContain('Great post');
+      expect(post.depth).toBe(0);
+      expect(post.childIds).toEqual([alice.id, carol.id]);
+      expect(alice).toMatchObject({
+        textContent: 'Great post, thanks for writing it.',
+        URL: 'https://example.com/test#comment-1',
+        parentId: post.id,
+        depth: 1,
+        metadata: {
+          author: 'Alice',
+          authorUrl: 'https://alice.example/',
+          createdAt: '2024-03-01T10:00:00.000Z'
+        }
+      });
+      expect(bob).toMatchObject({ textContent: 'Agreed, a very useful article.', parentId: alice.id, depth: 2, metadata: { author: 'Bob' } });
+      expect(carol).toMatchObject({ parentId: post.id, depth: 1, URL: 'https://example.com/test#comment-3' });
+    });
+
+    it('should extract schema.org Comment microdata', async () => {
+      document.body.innerHTML = `
+        ${article}
+        <section>
+          <div itemscope itemtype="https://schema.org/Comment">
+            <span itemprop="author" itemscope itemtype="https://schema.org/Person"><span itemprop="name">Dana</span></span>
+            <meta itemprop="dateCreated" content="2024-04-02T08:30:00Z">
+            <div itemprop="text">Structured comment text here.</div>
+            <div itemscope itemtype="https://schema.org/Comment">
+              <span itemprop="author">Eve</span>
+              <div itemprop="text">Structured reply text here.</div>
+            </div>
+          </div>
+        </section>
+      `;
+
+      const result = await extractor.extract();
+      const [, dana, eve] = result.items;
+
+      expect(dana).toMatchObject({
+        type: 'comment',
+        textContent: 'Structured comment text here.',
+        depth: 1,
+        metadata: { author: 'Dana', createdAt: '2024-04-02T08:30:00.000Z' }
+      });
+      expect(eve).toMatchObject({ textContent: 'Structured reply text here.', parentId: dana.id, depth: 2, metadata: { author: 'Eve' } });
+    });
+
+    it('should detect repeated blocks with an author and a time in a comment section', async () => {
+      document.body.innerHTML = `
+        ${article}
+        <div id="discussion">
+          <div class="entry">
+            <span class="username">frank</span> <time datetime="2024-05-01T09:00:00Z">May 1</time>
+            <p>First response in the discussion.</p>
+            <div class="entry">
+              <span class="username">grace</span> <time datetime="2024-05-01T10:00:00Z">May 1</time>
+              <p>A reply to the first response.</p>
+            </div>
+          </div>
+          <div class="entry">
+            <span class="username">heidi</span> <time datetime="2024-05-02T09:00:00Z">May 2</time>
+            <p>Second response in the discussion.</p>
+          </div>
+        </div>
+      `;
+
+      const result = await extractor.extract();
+      const [post, frank, grace, heidi] = result.items;
+
+      expect(result.items).toHaveLength(4);
+      expect(frank.textContent).toContain('First response in the discussion.');
+      expect(frank.textContent).not.toContain('A reply to the first response.');
+      expect(frank.metadata?.author).toBe('frank');
+      expect(grace).toMatchObject({ parentId: frank.id, depth: 2, metadata: { author: 'grace' } });
+      expect(heidi).toMatchObject({ parentId: post.id, depth: 1, metadata: { author: 'heidi' } });
+    });
+
+    it('should not treat code comments as page comments', async () => {
+      document.body.innerHTML = `
+        <article>
+          <p>Some code explained in an article, with enough text to be extracted, and commas.</p>
+          <pre><code><span class="comment">// a comment in the code</span></code></pre>
+        </article>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].type).toBe('post');
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GitHubExtractor } from '../../extractors/github';
+
+const ISSUE_URL = 'https://github.com/owner/repo/issues/7';
+
+// Mock window.location
+Object.defineProperty(window, 'location', {
+  value: {
+    href: ISSUE_URL
+  },
+  writable: true
+});
+
+describe('GitHubExtractor', () => {
+  let extractor: GitHubExtractor;
+
+  beforeEach(() => {
+    extractor = new GitHubExtractor(false);
+    // Reset DOM
+    document.body.innerHTML = '';
+    document.title = 'Extractor crashes on empty pages · Issue #7 · owner/repo';
+
+    // Mock DOM APIs for visibility checking
+    Element.prototype.getBoundingClientRect = vi.fn(() => ({
+      width: 100, height: 50, top: 0, left: 0, right: 100, bottom: 50, x: 0, y: 0, toJSON: () => {}
+    }));
+    Object.defineProperty(HTMLElement.prototype, 'offsetParent', {
+      get() { return document.body; }, configurable: true
+    });
+    window.getComputedStyle = vi.fn(() => ({
+      display: 'block', visibility: 'visible'
+    } as CSSStyleDeclaration));
+  });
+
+  afterEach(() => {
+    window.location.href = ISSUE_URL;
+  });
+
+  it('should extract basic page information', async () => {
+    const result = await extractor.extract();
+
+    expect(result.pageURL).toBe(ISSUE_URL);
+    expect(result.title).toBe('Extractor crashes on empty pages · Issue #7 · owner/repo');
+    expect(result.items).toEqual([]);
+  });
+
+  it('should extract the opening body and each timeline comment', async () => {
+    document.body.innerHTML = `
+      <h1 class="gh-header-title"><bdi class="js-issue-title markdown-title">Extractor crashes on empty pages</bdi> <span>#7</span></h1>
+      <div class="js-discussion">
+        <div class="TimelineItem js-comment-container">
+          <div id="issue-100" class="timeline-comment-group js-minimizable-comment-group">
+            <div class="timeline-comment">
+              <div class="timeline-comment-header">
+                <h3><a class="author Link--primary text-bold" href="https://github.com/alice">alice</a> commented <a href="https://github.com/owner/repo/issues/7#issue-100" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+              </div>
+              <div class="edit-comment-hide">
+                <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>Calling <code>extract()</code> on an empty page throws.</p></td></tr></tbody></table>
+              </div>
+              <div class="comment-reactions"><div class="js-reactions-container">
+                <button class="social-reaction-summary-item btn-link" value="+1 react"><g-emoji alias="+1" class="social-button-emoji">👍</g-emoji> <span class="js-discussion-reaction-group-count">4</span></button>
+                <button class="social-reaction-summary-item btn-link" value="heart react"><g-emoji alias="heart" class="social-button-emoji">❤️</g-emoji> <span class="js-discussion-reaction-group-count">1</span></button>
+              </div></div>
+            </div>
+          </div>
+        </div>
+        <div class="TimelineItem js-comment-container">
+          <div id="issuecomment-201" class="timeline-comment-group js-minimizable-comment-group">
+            <div class="timeline-comment">
+              <div class="timeline-comment-header">
+                <h3><a class="author Link--primary text-bold" href="https://github.com/bob">bob</a> commented <a href="https://github.com/owner/repo/issues/7#issuecomment-201" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+              </div>
+              <div class="edit-comment-hide">
+                <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>I can reproduce this on <a href="https://example.com/">example.com</a> too</p></td></tr></tbody></table>
+              </div>
+            </div>
+          </div>
+        </div>
+        <div class="TimelineItem"><div class="TimelineItem-body">carol added the bug label</div></div>
+        <div class="TimelineItem js-comment-container">
+          <div id="issuecomment-202" class="timeline-comment-group js-minimizable-comment-group">
+            <div class="timeline-comment">
+              <div class="timeline-comment-header">
+                <h3><a class="author Link--primary text-bold" href="https://github.com/alice">alice</a> commented <a href="https://github.com/owner/repo/issues/7#issuecomment-202" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+              </div>
+              <div class="edit-comment-hide">
+                <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>Fixed in the next release.</p></td></tr></tbody></table>
+              </div>
+              <div class="comment-reactions"><div class="js-reactions-container">
+                <button class="social-reaction-summary-item btn-link" value="hooray react"><g-emoji alias="hooray" class="social-button-emoji">🎉</g-emoji> <span class="js-discussion-reaction-group-count">2</span></button>
+              </div></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+    const [issue, reply, fix] = result.items;
+
+    expect(result.items.map(item => item.id)).toEqual(['github:issue-100', 'github:issuecomment-201', 'github:issuecomment-202']);
+    expect(issue).toMatchObject({
+      type: 'post',
+      depth: 0,
+      textContent: 'Extractor crashes on empty pages\n\nCalling extract() on an empty page throws.',
+      URL: 'https://github.com/owner/repo/issues/7#issue-100',
+      childIds: [reply.id, fix.id],
+      metadata: {
+        title: 'Extractor crashes on empty pages',
+        author: 'alice',
+        authorUrl: 'https://github.com/alice',
+        createdAt: '2024-03-01T12:00:00.000Z',
+        reactions: { '+1': 4, heart: 1 }
+      }
+    });
+    expect(reply).toMatchObject({
+      type: 'comment',
+      parentId: issue.id,
+      depth: 1,
+      textContent: 'I can reproduce this on example.com too',
+      URL: 'https://github.com/owner/repo/issues/7#issuecomment-201',
+      links: [{ href: 'https://example.com/', text: 'example.com', internal: false }],
+      metadata: { author: 'bob' }
+    });
+    expect(reply.metadata?.reactions).toBeUndefined();
+    expect(fix.metadata?.reactions).toEqual({ hooray: 2 });
+  });
+
+  it('should extract issues rendered by the React issue viewer', async () => {
+    document.body.innerHTML = `
+      <div data-testid="issue-viewer-container">
+        <div data-testid="issue-header">
+          <h1><bdi data-testid="issue-title" class="markdown-title">Extractor crashes on empty pages</bdi> <span>#7</span></h1>
+        </div>
+        <div data-testid="issue-body" class="react-issue-body">
+          <div data-testid="issue-body-header">
+            <a data-testid="issue-body-header-author" href="/alice">alice</a>
+            <span>opened</span>
+            <a data-testid="issue-body-header-link" href="https://github.com/owner/repo/issues/7#issue-100"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a>
+          </div>
+          <div data-testid="issue-body-viewer">
+            <div data-testid="markdown-body" class="markdown-body"><p>Calling <code>extract()</code> on an empty page throws.</p></div>
+          </div>
+          <div role="toolbar" aria-label="Reactions">
+            <button role="switch" aria-checked="false" aria-label="+1 (4)"><span>👍</span><span>4</span></button>
+            <button role="switch" aria-checked="false" aria-label="heart (1)"><span>❤️</span><span>1</span></button>
+          </div>
+        </div>
+        <div data-testid="issue-timeline">
+          <div class="react-issue-comment">
+            <div data-testid="comment-header">
+              <a data-testid="avatar-link" href="/bob">bob</a>
+              <span>commented</span>
+              <a href="https://github.com/owner/repo/issues/7#issuecomment-201"><relative-time datetime="2024-03-02T08:30:00Z">Mar 2</relative-time></a>
+            </div>
+            <div data-testid="markdown-body" class="markdown-body"><p>I can reproduce this on Firefox too.</p></div>
+          </div>
+          <div class="TimelineItem"><div class="TimelineItem-body">carol added the bug label</div></div>
+          <div class="react-issue-comment">
+            <div data-testid="comment-header">
+              <a data-testid="avatar-link" href="/alice">alice</a>
+              <span>commented</span>
+              <a href="https://github.com/owner/repo/issues/7#issuecomment-202"><relative-time datetime="2024-03-03T10:00:00Z">Mar 3</relative-time></a>
+            </div>
+            <div data-testid="markdown-body" class="markdown-body"><p>Fixed in the next release.</p></div>
+            <div role="toolbar" aria-label="Reactions">
+              <button role="switch" aria-checked="false" aria-label="hooray (2)"><span>🎉</span><span>2</span></button>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+    const [issue, reply, fix] = result.items;
+
+    expect(result.items.map(item => item.id)).toEqual(['github:issue-100', 'github:issuecomment-201', 'github:issuecomment-202']);
+    expect(issue).toMatchObject({
+      type: 'post',
+      depth: 0,
+      textContent: 'Extractor crashes on empty pages\n\nCalling extract() on an empty page throws.',
+      URL: 'https://github.com/owner/repo/issues/7#issue-100',
+      childIds: [reply.id, fix.id],
+      metadata: {
+        title: 'Extractor crashes on empty pages',
+        author: 'alice',
+        authorUrl: 'http://localhost:3000/alice',
+        createdAt: '2024-03-01T12:00:00.000Z',
+        reactions: { '+1': 4, heart: 1 }
+      }
+    });
+    expect(reply).toMatchObject({
+      type: 'comment',
+      parentId: issue.id,
+      depth: 1,
+      textContent: 'I can reproduce this on Firefox too.',
+      URL: 'https://github.com/owner/repo/issues/7#issuecomment-201',
+      metadata: { author: 'bob', createdAt: '2024-03-02T08:30:00.000Z' }
+    });
+    expect(reply.metadata?.reactions).toBeUndefined();
+    expect(fix).toMatchObject({ parentId: issue.id, depth: 1, metadata: { author: 'alice', reactions: { hooray: 2 } } });
+  });
+
+  it('should skip minimized comments', async () => {
+    document.body.innerHTML = `
+      <div class="js-discussion">
+        <div class="TimelineItem js-comment-container">
+          <div id="issue-100" class="timeline-comment-group js-minimizable-comment-group">
+            <div class="timeline-comment">
+              <div class="timeline-comment-header">
+                <h3><a class="author Link--primary text-bold" href="https://github.com/alice">alice</a> commented <a href="https://github.com/owner/repo/issues/7#issue-100" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+              </div>
+              <div class="edit-comment-hide">
+                <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>The issue body.</p></td></tr></tbody></table>
+              </div>
+            </div>
+          </div>
+        </div>
+        <div class="TimelineItem js-comment-container">
+          <div id="issuecomment-201" class="timeline-comment-group js-minimizable-comment-group">
+            <div class="timeline-comment">
+              <div class="timeline-comment-header">
+                <h3><a class="author Link--primary text-bold" href="https://github.com/spammer">spammer</a> commented <a href="https://github.com/owner/repo/issues/7#issuecomment-201" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+              </div>
+              <div class="edit-comment-hide">
+                <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>Buy now!</p></td></tr></tbody></table>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+    (document.querySelector('#issuecomment-201 .comment-body') as HTMLElement).style.display = 'none';
+
+    const result = await extractor.extract();
+
+    expect(result.items.map(item => item.id)).toEqual(['github:issue-100']);
+  });
+
+  it('should nest threaded Discussion replies and mark the accepted answer', async () => {
+    window.location.href = 'https://github.com/owner/repo/discussions/9';
+    document.body.innerHTML = `
+      <div class="js-discussion">
+        <div class="TimelineItem js-comment-container">
+          <div id="discussion-300" class="timeline-comment-group js-minimizable-comment-group">
+            <div class="timeline-comment">
+              <div class="timeline-comment-header">
+                <h3><a class="author Link--primary text-bold" href="https://github.com/alice">alice</a> commented <a href="https://github.com/owner/repo/discussions/9#discussion-300" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+              </div>
+              <div class="edit-comment-hide">
+                <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>How do I extract a thread?</p></td></tr></tbody></table>
+              </div>
+            </div>
+          </div>
+        </div>
+        <div class="TimelineItem js-comment-container discussion-timeline-answer">
+          <div id="discussioncomment-401" class="timeline-comment-group js-minimizable-comment-group">
+            <div class="timeline-comment">
+              <div class="timeline-comment-header">
+                <h3><a class="author Link--primary text-bold" href="https://github.com/bob">bob</a> commented <a href="https://github.com/owner/repo/discussions/9#discussioncomment-401" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+              </div>
+              <div class="edit-comment-hide">
+                <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>Use the registry.</p></td></tr></tbody></table>
+              </div>
+              <div class="comment-reactions"><div class="js-reactions-container">
+                <button class="social-reaction-summary-item btn-link" value="+1 react"><g-emoji alias="+1" class="social-button-emoji">👍</g-emoji> <span class="js-discussion-reaction-group-count">3</span></button>
+              </div></div>
+            </div>
+          </div>
+          <div class="discussion-replies">
+            <div class="TimelineItem js-comment-container">
+              <div id="discussioncomment-402" class="timeline-comment-group js-minimizable-comment-group">
+                <div class="timeline-comment">
+                  <div class="timeline-comment-header">
+                    <h3><a class="author Link--primary text-bold" href="https://github.com/alice">alice</a> commented <a href="https://github.com/owner/repo/discussions/9#discussioncomment-402" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+                  </div>
+                  <div class="edit-comment-hide">
+                    <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>That worked, thanks!</p></td></tr></tbody></table>
+                  </div>
+                </div>
+              </div>
+            </div>
+            <div class="TimelineItem js-comment-container">
+              <div id="discussioncomment-403" class="timeline-comment-group js-minimizable-comment-group">
+                <div class="timeline-comment">
+                  <div class="timeline-comment-header">
+                    <h3><a class="author Link--primary text-bold" href="https://github.com/carol">carol</a> commented <a href="https://github.com/owner/repo/discussions/9#discussioncomment-403" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+                  </div>
+                  <div class="edit-comment-hide">
+                    <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>Same question here.</p></td></tr></tbody></table>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+        <div class="TimelineItem js-comment-container">
+          <div id="discussioncomment-404" class="timeline-comment-group js-minimizable-comment-group">
+            <div class="timeline-comment">
+              <div class="timeline-comment-header">
+                <h3><a class="author Link--primary text-bold" href="https://github.com/dave">dave</a> commented <a href="https://github.com/owner/repo/discussions/9#discussioncomment-404" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+              </div>
+              <div class="edit-comment-hide">
+                <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>Another top-level answer.</p></td></tr></tbody></table>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+    const [discussion, answer, thanks, same, other] = result.items;
+
+    expect(discussion).toMatchObject({ type: 'post', depth: 0, childIds: [answer.id, other.id] });
+    expect(answer).toMatchObject({
+      parentId: discussion.id,
+      depth: 1,
+      childIds: [thanks.id, same.id],
+      metadata: { author: 'bob', isAnswer: true, reactions: { '+1': 3 } }
+    });
+    expect(thanks).toMatchObject({ parentId: answer.id, depth: 2 });
+    expect(thanks.metadata?.isAnswer).toBeUndefined();
+    expect(same).toMatchObject({ parentId: answer.id, depth: 2 });
+    expect(other).toMatchObject({ parentId: discussion.id, depth: 1 });
+  });
+
+  it('should include HTML content when includeHtml is true', async () => {
+    document.body.innerHTML = `
+      <div class="TimelineItem js-comment-container">
+        <div id="issue-100" class="timeline-comment-group js-minimizable-comment-group">
+          <div class="timeline-comment">
+            <div class="timeline-comment-header">
+              <h3><a class="author Link--primary text-bold" href="https://github.com/alice">alice</a> commented <a href="https://github.com/owner/repo/issues/7#issue-100" class="Link--secondary js-timestamp"><relative-time datetime="2024-03-01T12:00:00Z">Mar 1</relative-time></a></h3>
+            </div>
+            <div class="edit-comment-hide">
+              <table class="d-block"><tbody class="d-block"><tr class="d-block"><td class="d-block comment-body markdown-body js-comment-body"><p>Body with <strong>bold</strong> text.</p></td></tr></tbody></table>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await new GitHubExtractor(true).extract();
+
+    expect(result.items[0].htmlContent).toBe('<p>Body with <strong>bold</strong> text.</p>');
+  });
+});
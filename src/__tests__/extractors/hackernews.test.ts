@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { HackerNewsExtractor } from '../../extractors/hackernews';
 import { SITE_SELECTORS } from '../../constants';
 
@@ -633,6 +633,499 @@ describe('HackerNewsExtractor', () => {
       expect(result.items[1].type).toBe('comment');
       expect(result.items[0].URL).toBe('http://localhost:3000/item?id=36971636');
       expect(result.items[1].URL).toBe('http://localhost:3000/item?id=36972493');
+      expect(result.items[0].depth).toBe(1);
+      expect(result.items[1].depth).toBe(2);
+      expect(result.items[1].parentId).toBe(result.items[0].id);
+      expect(result.items[0].childIds).toEqual([result.items[1].id]);
+    });
+
+    it('should extract story and comment metadata', async () => {
+      document.body.innerHTML = `
+        <table class="fatitem" border="0">
+          <tr class="athing submission" id="36971003">
+            <td class="title"><span class="titleline"><a href="https://example.com/story">Story Title</a></span></td>
+          </tr>
+          <tr>
+            <td class="subtext">
+              <span class="subline">
+                <span class="score" id="score_36971003">243 points</span> by
+                <a href="user?id=tosh" class="hnuser">tosh</a>
+                <span class="age" title="2023-08-02T08:00:00 1690963200">
+                  <a href="item?id=36971003">2 hours ago</a>
+                </span> |
+                <a href="item?id=36971003">123&nbsp;comments</a>
+              </span>
+            </td>
+          </tr>
+        </table>
+        <table border="0" class="comment-tree">
+          <tr class="athing comtr" id="36971636">
+            <td>
+              <table border="0">
+                <tr>
+                  <td class="ind" indent="0"><img src="s.gif" height="1" width="0"></td>
+                  <td class="default">
+                    <div class="comhead">
+                      <a href="user?id=sebastiennight" class="hnuser">sebastiennight</a>
+                      <span class="age" title="2023-08-02T10:20:49">
+                        <a href="item?id=36971636">on Aug 2, 2023</a>
+                      </span>
+                    </div>
+                    <div class="comment">
+                      <div class="commtext c00">This is a comment with enough content to be extracted.</div>
+                    </div>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items[0].metadata).toEqual({
+        author: 'tosh',
+        authorUrl: 'http://localhost:3000/user?id=tosh',
+        createdAt: '2023-08-02T08:00:00.000Z',
+        score: 243,
+        replies: 123
+      });
+      expect(result.items[1].metadata).toEqual({
+        author: 'sebastiennight',
+        authorUrl: 'http://localhost:3000/user?id=sebastiennight',
+        createdAt: '2023-08-02T10:20:49.000Z',
+        score: undefined,
+        replies: undefined
+      });
+      expect(result.items[0].attachments).toEqual([
+        { kind: 'link', src: 'https://example.com/story', alt: 'Story Title' }
+      ]);
+      expect(result.items[1].attachments).toBeUndefined();
+    });
+
+    it('should extract the links of comment text only', async () => {
+      document.body.innerHTML = `
+        <table border="0" class="comment-tree">
+          <tr class="athing comtr" id="801">
+            <td>
+              <table border="0">
+                <tr>
+                  <td class="ind" indent="0"><img src="s.gif" height="1" width="0"></td>
+                  <td class="default">
+                    <div class="comhead"><a href="user?id=linker" class="hnuser">linker</a></div>
+                    <div class="comment">
+                      <div class="commtext c00">See <a href="https://example.com/paper.pdf" rel="nofollow">https://example.com/paper.pdf</a> and <a href="https://news.ycombinator.com/item?id=700">my older comment</a>.</div>
+                    </div>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items[0].links).toEqual([
+        { href: 'https://example.com/paper.pdf', text: 'https://example.com/paper.pdf', canonicalUrl: undefined, internal: false },
+        { href: 'https://news.ycombinator.com/item?id=700', text: 'my older comment', canonicalUrl: undefined, internal: true }
+      ]);
+    });
+
+    it('should report zero replies for stories that are not discussed yet', async () => {
+      document.body.innerHTML = `
+        <div class="toptext">Ask HN: a text post that nobody has answered so far.</div>
+        <div class="subtext">
+          <span class="score">1 point</span> by <a href="user?id=asker" class="hnuser">asker</a>
+          <span class="age"><a href="item?id=1">just now</a></span> | <a href="item?id=1">discuss</a>
+        </div>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items[0].metadata!.replies).toBe(0);
+      expect(result.items[0].metadata!.score).toBe(1);
+      expect(result.items[0].metadata!.createdAt).toBeUndefined();
+    });
+
+    it('should attach top-level comments to the story and keep reply order', async () => {
+      const commentRow = (id: string, indent: number, text: string) => `
+        <tr class="athing comtr" id="${id}">
+          <td>
+            <table border="0">
+              <tr>
+                <td class="ind" indent="${indent}"><img src="s.gif" height="1" width="${indent * 40}"></td>
+                <td class="default">
+                  <div class="comment">
+                    <div class="commtext c00">${text}</div>
+                  </div>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      `;
+
+      document.body.innerHTML = `
+        <table class="fatitem" border="0">
+          <tr class="athing submission" id="100">
+            <td class="title"><span class="titleline"><a href="https://example.com/story">Story Title</a></span></td>
+          </tr>
+        </table>
+        <table border="0" class="comment-tree">
+          ${commentRow('1', 0, 'First top-level comment, long enough.')}
+          ${commentRow('2', 1, 'Reply to the first top-level comment.')}
+          ${commentRow('3', 2, 'Reply to the reply of the first comment.')}
+          ${commentRow('4', 0, 'Second top-level comment, long enough.')}
+        </table>
+      `;
+
+      const result = await extractor.extract();
+      const [story, first, reply, nested, second] = result.items;
+
+      expect(result.items).toHaveLength(5);
+      expect(story.depth).toBe(0);
+      expect(story.parentId).toBeUndefined();
+      expect(story.childIds).toEqual([first.id, second.id]);
+      expect(first.parentId).toBe(story.id);
+      expect(reply.parentId).toBe(first.id);
+      expect(nested.parentId).toBe(reply.id);
+      expect(nested.depth).toBe(3);
+      expect(second.parentId).toBe(story.id);
+    });
+
+    it('should fall back to the spacer image width for the nesting level', async () => {
+      const commentRow = (id: string, width: number, text: string) => `
+        <tr class="athing comtr" id="${id}">
+          <td>
+            <table border="0">
+              <tr>
+                <td class="ind"><img src="s.gif" height="1" width="${width}"></td>
+                <td class="default"><div class="comment"><div class="commtext c00">${text}</div></div></td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      `;
+
+      document.body.innerHTML = `
+        <table border="0" class="comment-tree">
+          ${commentRow('1', 0, 'Top-level comment without indent.')}
+          ${commentRow('2', 40, 'Reply one level below the first.')}
+          ${commentRow('3', 80, 'Reply two levels below the first.')}
+        </table>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items.map(item => item.depth)).toEqual([1, 2, 3]);
+      expect(result.items[2].parentId).toBe(result.items[1].id);
+    });
+
+    it('should report flagged and dead comments', async () => {
+      document.body.innerHTML = `
+        <table border="0" class="comment-tree">
+          <tr class="athing comtr" id="701">
+            <td>
+              <table border="0">
+                <tr>
+                  <td class="ind" indent="0"><img src="s.gif" height="1" width="0"></td>
+                  <td class="default">
+                    <div class="comhead">
+                      <a href="user?id=troll" class="hnuser">troll</a>
+                      <span class="age" title="2023-08-02T10:20:49 1690971649"><a href="item?id=701">1 hour ago</a></span>
+                      [flagged] [dead]
+                    </div>
+                    <div class="comment"><div class="commtext cdd">A comment that was flagged to death.</div></div>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+          <tr class="athing comtr" id="702">
+            <td>
+              <table border="0">
+                <tr>
+                  <td class="ind" indent="1"><img src="s.gif" height="1" width="40"></td>
+                  <td class="default">
+                    <div class="comhead"><a href="user?id=someone" class="hnuser">someone</a></div>
+                    <div class="comment"><div class="commtext c00">A regular reply to the dead comment.</div></div>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      `;
+
+      const result = await extractor.extract();
+      const [dead, reply] = result.items;
+
+      expect(dead.metadata).toMatchObject({
+        author: 'troll',
+        createdAt: '2023-08-02T10:20:49.000Z',
+        flags: ['flagged', 'dead']
+      });
+      expect(reply.metadata!.flags).toBeUndefined();
+      expect(reply.parentId).toBe(dead.id);
+    });
+
+    it('should use HN item ids as stable item ids', async () => {
+      const commentRow = (id: string, link: boolean, text: string) => `
+        <tr class="athing comtr" id="${id}">
+          <td>
+            <table border="0">
+              <tr>
+                <td class="ind" indent="0"><img src="s.gif" height="1" width="0"></td>
+                <td class="default">
+                  <div class="comhead">
+                    <span class="age">${link ? `<a href="item?id=${id}">1 hour ago</a>` : ''}</span>
+                  </div>
+                  <div class="comment">
+                    <div class="commtext c00">${text}</div>
+                  </div>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      `;
+
+      document.body.innerHTML = `
+        <table border="0" class="comment-tree">
+          ${commentRow('501', true, 'Same text in two comments.')}
+          ${commentRow('502', false, 'Same text in two comments.')}
+        </table>
+      `;
+
+      const first = await extractor.extract();
+      const second = await extractor.extract();
+
+      expect(first.items.map(item => item.id)).toEqual(['hn:501', 'hn:502']);
+      expect(second.items.map(item => item.id)).toEqual(['hn:501', 'hn:502']);
+    });
+
+    it('should expand collapsed comment threads', async () => {
+      document.body.innerHTML = `
+        <table border="0" class="comment-tree">
+          <tr class="athing comtr coll" id="601">
+            <td><div class="comhead"><a class="togg clicky" href="javascript:void(0)">[3 more]</a></div></td>
+          </tr>
+          <tr class="athing comtr" id="602">
+            <td><div class="comhead"><a class="togg clicky" href="javascript:void(0)">[–]</a></div></td>
+          </tr>
+        </table>
+      `;
+      const toggles = Array.from(document.querySelectorAll('a.togg'));
+      const clicked: Element[] = [];
+      toggles.forEach(toggle => toggle.addEventListener('click', event => {
+        event.preventDefault();
+        clicked.push(toggle);
+        toggle.closest('tr')!.classList.remove('coll');
+      }));
+
+      const expanded = await extractor.expand({ settleTime: 1 });
+
+      expect(expanded).toBe(1);
+      expect(clicked).toEqual([toggles[0]]);
+    });
+  });
+
+  describe('listing pages', () => {
+    const story = (id: string, title: string, href: string, subline: string, site = '') => `
+      <tr class="athing submission" id="${id}">
+        <td align="right" valign="top" class="title"><span class="rank">1.</span></td>
+        <td class="title">
+          <span class="titleline">
+            <a href="${href}">${title}</a>
+            ${site ? `<span class="sitebit comhead"> (<a href="from?site=${site}"><span class="sitestr">${site}</span></a>)</span>` : ''}
+          </span>
+        </td>
+      </tr>
+      <tr>
+        <td colspan="2"></td>
+        <td class="subtext"><span class="subline">${subline}</span></td>
+      </tr>
+      <tr class="spacer" style="height:5px"></tr>
+    `;
+
+    beforeEach(() => {
+      window.location.href = 'https://news.ycombinator.com/news';
+    });
+
+    afterEach(() => {
+      window.location.href = 'https://news.ycombinator.com/item?id=36971003';
+    });
+
+    it('should extract every story with its listing details', async () => {
+      document.body.innerHTML = `
+        <table border="0" cellpadding="0" cellspacing="0">
+          ${story('101', 'A linked article', 'https://example.com/article', `
+            <span class="score" id="score_101">243 points</span> by <a href="user?id=tosh" class="hnuser">tosh</a>
+            <span class="age" title="2023-08-02T10:20:49 1690971649"><a href="item?id=101">2 hours ago</a></span> |
+            <a href="hide?id=101&goto=news">hide</a> | <a href="item?id=101">1,234&nbsp;comments</a>
+          `, 'example.com')}
+          ${story('102', 'Ask HN: A question?', 'item?id=102', `
+            <span class="score" id="score_102">5 points</span> by <a href="user?id=asker" class="hnuser">asker</a>
+            <span class="age" title="2023-08-02T11:00:00 1690974000"><a href="item?id=102">1 hour ago</a></span> |
+            <a href="item?id=102">discuss</a>
+          `)}
+        </table>
+        <a href="?p=2" class="morelink" rel="next">More</a>
+      `;
+
+      const result = await extractor.extract();
+      const [linked, ask] = result.items;
+
+      expect(result.items).toHaveLength(2);
+      expect(linked).toMatchObject({
+        id: 'hn:101',
+        type: 'post',
+        depth: 0,
+        textContent: 'A linked article',
+        URL: 'https://news.ycombinator.com/item?id=101',
+        metadata: {
+          title: 'A linked article',
+          linkUrl: 'https://example.com/article',
+          domain: 'example.com',
+          author: 'tosh',
+          createdAt: '2023-08-02T10:20:49.000Z',
+          score: 243,
+          replies: 1234
+        }
+      });
+      expect(linked.element.id).toBe('101');
+      expect(ask.metadata).toMatchObject({ linkUrl: 'http://localhost:3000/item?id=102', score: 5, replies: 0 });
+      expect(ask.metadata!.domain).toBeUndefined();
+    });
+
+    it('should follow "More" links on listings', async () => {
+      document.body.innerHTML = `
+        <table>${story('101', 'First page story', 'https://example.com/1', '<span class="score">1 point</span>')}</table>
+        <a href="?p=2" class="morelink" rel="next">More</a>
+      `;
+      const pageFetcher = vi.fn(async () => `
+        <table>${story('201', 'Second page story', 'https://example.com/2', '<span class="score">2 points</span>')}</table>
+      `);
+
+      const result = await new HackerNewsExtractor(false, { followPagination: true, pageFetcher }).extract();
+
+      expect(pageFetcher).toHaveBeenCalledWith('https://news.ycombinator.com/news?p=2');
+      expect(result.items.map(item => item.id)).toEqual(['hn:101', 'hn:201']);
+    });
+  });
+
+  describe('pagination', () => {
+    const commentRow = (id: string, indent: number, text: string) => `
+      <tr class="athing comtr" id="${id}">
+        <td>
+          <table border="0">
+            <tr>
+              <td class="ind" indent="${indent}"><img src="s.gif" height="1" width="${indent * 40}"></td>
+              <td class="default">
+                <div class="comhead"><span class="age"><a href="item?id=${id}">1 hour ago</a></span></div>
+                <div class="comment"><div class="commtext c00">${text}</div></div>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    `;
+    const page = (rows: string, next?: string) => `
+      <table class="fatitem" border="0">
+        <tr class="athing submission" id="36971003">
+          <td class="title"><span class="titleline"><a href="https://example.com/story">Story Title</a></span></td>
+        </tr>
+      </table>
+      <table border="0" class="comment-tree">${rows}</table>
+      ${next ? `<a href="${next}" class="morelink" rel="next">More</a>` : ''}
+    `;
+
+    it('should only extract the current page by default', async () => {
+      document.body.innerHTML = page(commentRow('1', 0, 'Comment on the first page.'), 'item?id=36971003&p=2');
+
+      const result = await extractor.extract();
+
+      expect(result.items).toHaveLength(2);
+    });
+
+    it('should follow "More" links and merge the comments of all pages', async () => {
+      document.body.innerHTML = page(`
+        ${commentRow('1', 0, 'Comment on the first page.')}
+        ${commentRow('2', 1, 'Reply on the first page.')}
+      `, 'item?id=36971003&p=2');
+      const pages: Record<string, string> = {
+        'https://news.ycombinator.com/item?id=36971003&p=2': page(`
+          ${commentRow('3', 2, 'Reply continued on the second page.')}
+          ${commentRow('4', 0, 'Top-level comment on the second page.')}
+        `, 'item?id=36971003&p=3'),
+        'https://news.ycombinator.com/item?id=36971003&p=3': page(commentRow('5', 0, 'Top-level comment on the third page.'))
+      };
+      const pageFetcher = vi.fn(async (url: string) => pages[url]);
+
+      const result = await new HackerNewsExtractor(false, { followPagination: true, pageFetcher }).extract();
+
+      expect(pageFetcher).toHaveBeenCalledTimes(2);
+      expect(result.items.map(item => item.id)).toEqual(['hn:36971003', 'hn:1', 'hn:2', 'hn:3', 'hn:4', 'hn:5']);
+      expect(result.paginationError).toBeUndefined();
+      expect(result.items.map(item => item.parentId)).toEqual([undefined, 'hn:36971003', 'hn:1', 'hn:2', 'hn:36971003', 'hn:36971003']);
+      expect(result.items[0].childIds).toEqual(['hn:1', 'hn:4', 'hn:5']);
+      expect(result.items[3].URL).toBe('https://news.ycombinator.com/item?id=3');
+    });
+
+    it('should stop after maxPages pages', async () => {
+      document.body.innerHTML = page(commentRow('1', 0, 'Comment on the first page.'), 'item?id=36971003&p=2');
+      const pageFetcher = vi.fn(async (url: string) => {
+        const next = Number(new URL(url).searchParams.get('p')) + 1;
+        return page(commentRow(String(next * 10), 0, `Comment on page ${next - 1}.`), `item?id=36971003&p=${next}`);
+      });
+
+      const result = await new HackerNewsExtractor(false, { followPagination: true, pageFetcher, maxPages: 3 }).extract();
+
+      expect(pageFetcher).toHaveBeenCalledTimes(2);
+      expect(result.items.filter(item => item.type === 'comment')).toHaveLength(3);
+    });
+
+    it('should refuse to fetch pages from other origins by default', async () => {
+      document.body.innerHTML = page(commentRow('1', 0, 'Comment on the first page.'), 'https://evil.example/item?id=1&p=2');
+
+      const result = await new HackerNewsExtractor(false, { followPagination: true }).extract();
+
+      expect(result.items.map(item => item.id)).toEqual(['hn:36971003', 'hn:1']);
+      expect(result.paginationError).toEqual({
+        url: 'https://evil.example/item?id=1&p=2',
+        error: new Error('Refusing to fetch https://evil.example/item?id=1&p=2: pages are only fetched from https://news.ycombinator.com')
+      });
+    });
+
+    it('should keep the pages harvested so far when a page fails to load', async () => {
+      document.body.innerHTML = page(commentRow('1', 0, 'Comment on the first page.'), 'item?id=36971003&p=2');
+      const pageFetcher = vi.fn(async (url: string) => {
+        if (url.endsWith('p=3')) throw new Error('network down');
+        return page(commentRow('2', 0, 'Comment on the second page.'), 'item?id=36971003&p=3');
+      });
+
+      const result = await new HackerNewsExtractor(false, { followPagination: true, pageFetcher }).extract();
+
+      expect(pageFetcher).toHaveBeenCalledTimes(2);
+      expect(result.items.map(item => item.id)).toEqual(['hn:36971003', 'hn:1', 'hn:2']);
+      expect(result.paginationError).toEqual({
+        url: 'https://news.ycombinator.com/item?id=36971003&p=3',
+        error: new Error('network down')
+      });
+    });
+
+    it('should fetch each following page only once across extractions', async () => {
+      document.body.innerHTML = page(commentRow('1', 0, 'Comment on the first page.'), 'item?id=36971003&p=2');
+      const pageFetcher = vi.fn(async () => page(commentRow('2', 0, 'Comment on the second page.')));
+      const paginated = new HackerNewsExtractor(false, { followPagination: true, pageFetcher });
+
+      await paginated.extract();
+      const result = await paginated.extract();
+
+      expect(pageFetcher).toHaveBeenCalledTimes(1);
+      expect(result.items.map(item => item.id)).toEqual(['hn:36971003', 'hn:1', 'hn:2']);
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LobstersExtractor } from '../../extractors/lobsters';
+
+const STORY_URL = 'https://lobste.rs/s/abc123/a_story_about_testing';
+
+// Mock window.location
+Object.defineProperty(window, 'location', {
+  value: {
+    href: STORY_URL
+  },
+  writable: true
+});
+
+describe('LobstersExtractor', () => {
+  let extractor: LobstersExtractor;
+
+  beforeEach(() => {
+    extractor = new LobstersExtractor(false);
+    // Reset DOM
+    document.body.innerHTML = '';
+    document.title = 'A story about testing | Lobsters';
+
+    // Mock DOM APIs for visibility checking
+    Element.prototype.getBoundingClientRect = vi.fn(() => ({
+      width: 100, height: 50, top: 0, left: 0, right: 100, bottom: 50, x: 0, y: 0, toJSON: () => {}
+    }));
+    Object.defineProperty(HTMLElement.prototype, 'offsetParent', {
+      get() { return document.body; }, configurable: true
+    });
+    window.getComputedStyle = vi.fn(() => ({
+      display: 'block', visibility: 'visible'
+    } as CSSStyleDeclaration));
+  });
+
+  afterEach(() => {
+    window.location.href = STORY_URL;
+  });
+
+  it('should extract basic page information', async () => {
+    const result = await extractor.extract();
+
+    expect(result.pageURL).toBe(STORY_URL);
+    expect(result.title).toBe('A story about testing | Lobsters');
+    expect(result.items).toEqual([]);
+  });
+
+  it('should extract the story with its title, URL, tags and metadata', async () => {
+    document.body.innerHTML = `
+      <ol class="stories">
+        <li id="story_abc123" data-shortid="abc123" class="story">
+          <div class="story_liner h-entry">
+            <div class="voters"><a class="upvoter" href="https://lobste.rs/login"></a><div class="score">42</div></div>
+            <div class="details">
+              <span role="heading" aria-level="1" class="link h-cite u-repost-of"><a class="u-url" href="https://example.com/testing">A story about testing</a></span>
+              <span class="tags">
+                <a class="tag tag_testing" href="https://lobste.rs/t/testing">testing</a>
+                <a class="tag tag_practices" href="https://lobste.rs/t/practices">practices</a>
+              </span>
+              <a class="domain" href="https://lobste.rs/domains/example.com">example.com</a>
+              <div class="byline">
+                <a href="https://lobste.rs/~alice"><img class="avatar" src="https://lobste.rs/avatars/alice-16.png" alt="alice avatar"></a>
+                <span>via</span>
+                <a class="u-author h-card" href="https://lobste.rs/~alice">alice</a>
+                <time title="2024-01-02 03:04:05 -0600" datetime="2024-01-02 03:04:05 -0600">5 hours ago</time>
+                <span class="comments_label"> | <a href="https://lobste.rs/s/abc123/a_story">3 comments</a></span>
+              </div>
+            </div>
+          </div>
+        </li>
+      </ol>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({
+      id: 'lobsters:abc123',
+      type: 'post',
+      depth: 0,
+      textContent: 'A story about testing',
+      URL: 'https://lobste.rs/s/abc123/a_story',
+      metadata: {
+        title: 'A story about testing',
+        linkUrl: 'https://example.com/testing',
+        domain: 'example.com',
+        tags: ['testing', 'practices'],
+        author: 'alice',
+        authorUrl: 'https://lobste.rs/~alice',
+        createdAt: '2024-01-02T09:04:05.000Z',
+        score: 42,
+        replies: 3
+      },
+      attachments: [{ kind: 'link', src: 'https://example.com/testing', alt: 'A story about testing' }]
+    });
+  });
+
+  it('should append the text of text stories', async () => {
+    document.body.innerHTML = `
+      <ol class="stories">
+        <li id="story_abc123" data-shortid="abc123" class="story">
+          <div class="story_liner h-entry">
+            <div class="voters"><a class="upvoter" href="https://lobste.rs/login"></a><div class="score">5</div></div>
+            <div class="details">
+              <span role="heading" aria-level="1" class="link h-cite u-repost-of"><a class="u-url" href="https://lobste.rs/s/abc123/a_story">Ask: how do you test?</a></span>
+              <span class="tags"><a class="tag tag_ask" href="https://lobste.rs/t/ask">ask</a></span>
+              <div class="byline">
+                <a class="u-author h-card" href="https://lobste.rs/~alice">alice</a>
+                <time datetime="2024-01-02 03:04:05 -0600">5 hours ago</time>
+                <span class="comments_label"> | <a href="https://lobste.rs/s/abc123/a_story">discuss</a></span>
+              </div>
+            </div>
+          </div>
+        </li>
+      </ol>
+      <div class="story_text"><p>Asking about <a href="https://example.com/tool">tools</a> and habits.</p></div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items[0].textContent).toBe('Ask: how do you test?\n\nAsking about tools and habits.');
+    expect(result.items[0].links).toEqual([{ href: 'https://example.com/tool', text: 'tools', internal: false }]);
+    expect(result.items[0].metadata?.replies).toBe(0);
+    expect(result.items[0].attachments).toBeUndefined();
+  });
+
+  it('should rebuild the comment tree from .comments_subtree nesting', async () => {
+    document.body.innerHTML = `
+      <ol class="stories">
+        <li id="story_abc123" data-shortid="abc123" class="story">
+          <div class="story_liner h-entry">
+            <div class="details">
+              <span role="heading" aria-level="1" class="link h-cite u-repost-of"><a class="u-url" href="https://example.com/testing">A story about testing</a></span>
+              <div class="byline"><a class="u-author h-card" href="https://lobste.rs/~alice">alice</a></div>
+            </div>
+          </div>
+        </li>
+      </ol>
+      <ol class="comments comments1">
+        <li class="comments_subtree">
+          <input id="comment_folder_aaa" class="comment_folder_button" type="checkbox">
+          <div id="c_aaa" data-shortid="aaa" class="comment">
+            <div class="voters"><a class="upvoter"></a><div class="score">7</div></div>
+            <div class="details">
+              <div class="byline">
+                <a href="https://lobste.rs/~bob"><img class="avatar" src="https://lobste.rs/avatars/bob-16.png"></a>
+                <a href="https://lobste.rs/~bob">bob</a>
+                <a href="https://lobste.rs/c/aaa"><time datetime="2024-01-02 05:00:00 -0600">3 hours ago</time></a>
+              </div>
+              <div class="comment_text"><p>Top-level comment with content.</p></div>
+            </div>
+          </div>
+          <ol class="comments">
+            <li class="comments_subtree">
+              <div id="c_bbb" data-shortid="bbb" class="comment">
+                <div class="details">
+                  <div class="byline"><a href="https://lobste.rs/~carol">carol</a></div>
+                  <div class="comment_text"><p>Reply to the top-level comment.</p></div>
+                </div>
+              </div>
+              <ol class="comments">
+                <li class="comments_subtree">
+                  <div id="c_ccc" data-shortid="ccc" class="comment">
+                    <div class="details">
+                      <div class="byline"><a href="https://lobste.rs/~dave">dave</a></div>
+                      <div class="comment_text"><p>Reply to the reply, three deep.</p></div>
+                    </div>
+                  </div>
+                  <ol class="comments"></ol>
+                </li>
+              </ol>
+            </li>
+          </ol>
+        </li>
+        <li class="comments_subtree">
+          <div id="c_ddd" data-shortid="ddd" class="comment">
+            <div class="details">
+              <div class="byline"><a href="https://lobste.rs/~erin">erin</a></div>
+              <div class="comment_text"><p>Another top-level comment here.</p></div>
+            </div>
+          </div>
+          <ol class="comments"></ol>
+        </li>
+      </ol>
+    `;
+
+    const result = await extractor.extract();
+    const [post, top, reply, nested, other] = result.items;
+
+    expect(result.items.map(item => item.id)).toEqual([
+      'lobsters:abc123', 'lobsters:c_aaa', 'lobsters:c_bbb', 'lobsters:c_ccc', 'lobsters:c_ddd'
+    ]);
+    expect(post.childIds).toEqual([top.id, other.id]);
+    expect(top).toMatchObject({
+      type: 'comment',
+      parentId: post.id,
+      depth: 1,
+      textContent: 'Top-level comment with content.',
+      URL: 'https://lobste.rs/c/aaa',
+      metadata: {
+        author: 'bob',
+        authorUrl: 'https://lobste.rs/~bob',
+        createdAt: '2024-01-02T11:00:00.000Z',
+        score: 7
+      }
+    });
+    expect(reply).toMatchObject({ parentId: top.id, depth: 2 });
+    expect(nested).toMatchObject({ parentId: reply.id, depth: 3 });
+    expect(other).toMatchObject({ parentId: post.id, depth: 1 });
+  });
+
+  it('should extract every story on listing pages', async () => {
+    window.location.href = 'https://lobste.rs/';
+    document.body.innerHTML = `
+      <ol class="stories list">
+        <li id="story_abc123" data-shortid="abc123" class="story">
+          <div class="story_liner h-entry">
+            <div class="details">
+              <span role="heading" aria-level="1" class="link h-cite u-repost-of"><a class="u-url" href="https://example.com/testing">A story about testing</a></span>
+              <span class="tags"><a class="tag tag_testing" href="https://lobste.rs/t/testing">testing</a></span>
+              <div class="byline"><span class="comments_label"><a href="https://lobste.rs/s/abc123/a_story">3 comments</a></span></div>
+            </div>
+          </div>
+        </li>
+        <li id="story_def456" data-shortid="def456" class="story">
+          <div class="story_liner h-entry">
+            <div class="details">
+              <span role="heading" aria-level="1" class="link h-cite u-repost-of"><a class="u-url" href="https://example.org/other">Another story</a></span>
+              <span class="tags">
+                <a class="tag tag_rust" href="https://lobste.rs/t/rust">rust</a>
+                <a class="tag tag_performance" href="https://lobste.rs/t/performance">performance</a>
+              </span>
+              <div class="byline"><span class="comments_label"><a href="https://lobste.rs/s/def456/another_story">discuss</a></span></div>
+            </div>
+          </div>
+        </li>
+      </ol>
+      <div class="story_text"><p>Not part of any listed story.</p></div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items.map(item => item.id)).toEqual(['lobsters:abc123', 'lobsters:def456']);
+    expect(result.items[1].textContent).toBe('Another story');
+    expect(result.items[1].metadata?.tags).toEqual(['rust', 'performance']);
+  });
+
+  it('should include HTML content when includeHtml is true', async () => {
+    document.body.innerHTML = `
+      <ol class="comments">
+        <li class="comments_subtree">
+          <div id="c_aaa" data-shortid="aaa" class="comment">
+            <div class="details">
+              <div class="byline"><a href="https://lobste.rs/~bob">bob</a></div>
+              <div class="comment_text"><p>Comment with <strong>bold</strong> text.</p></div>
+            </div>
+          </div>
+        </li>
+      </ol>
+    `;
+
+    const result = await new LobstersExtractor(true).extract();
+
+    expect(result.items[0].htmlContent).toContain('<strong>bold</strong>');
+  });
+});
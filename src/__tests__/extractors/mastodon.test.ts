@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MastodonExtractor } from '../../extractors/mastodon';
+
+const STATUS_URL = 'https://fosstodon.org/@bob@mastodon.social/200';
+
+// Mock window.location
+Object.defineProperty(window, 'location', {
+  value: {
+    href: STATUS_URL
+  },
+  writable: true
+});
+
+describe('MastodonExtractor', () => {
+  let extractor: MastodonExtractor;
+
+  beforeEach(() => {
+    extractor = new MastodonExtractor(false);
+    // Reset DOM
+    document.body.innerHTML = '';
+    document.title = 'Bob: "The focal status" - Fosstodon';
+
+    // Mock DOM APIs for visibility checking
+    Element.prototype.getBoundingClientRect = vi.fn(() => ({
+      width: 100, height: 50, top: 0, left: 0, right: 100, bottom: 50, x: 0, y: 0, toJSON: () => {}
+    }));
+    Object.defineProperty(HTMLElement.prototype, 'offsetParent', {
+      get() { return document.body; }, configurable: true
+    });
+    window.getComputedStyle = vi.fn(() => ({
+      display: 'block', visibility: 'visible'
+    } as CSSStyleDeclaration));
+  });
+
+  afterEach(() => {
+    window.location.href = STATUS_URL;
+  });
+
+  it('should extract basic page information', async () => {
+    const result = await extractor.extract();
+
+    expect(result.pageURL).toBe(STATUS_URL);
+    expect(result.title).toBe('Bob: "The focal status" - Fosstodon');
+    expect(result.items).toEqual([]);
+  });
+
+  it('should extract the focal status with its account, counts and permalink', async () => {
+    document.body.innerHTML = `
+      <div class="scrollable">
+        <div class="detailed-status__wrapper focusable">
+          <div class="detailed-status detailed-status-public">
+            <a href="https://fosstodon.org/@bob@mastodon.social" class="detailed-status__display-name">
+              <span class="display-name"><strong class="display-name__html">Bob</strong> <span class="display-name__account">@bob@mastodon.social</span></span>
+            </a>
+            <div class="status__content"><div class="status__content__text status__content__text--visible translate"><p>The focal status of the thread.</p></div></div>
+            <div class="detailed-status__meta">
+              <a class="detailed-status__datetime" href="https://mastodon.social/@bob/111"><time datetime="2024-02-03T12:00:00.000Z">Feb 3, 2024</time></a>
+              <a class="detailed-status__link" href="https://fosstodon.org/@bob@mastodon.social/200/reblogs"><span class="detailed-status__reblogs">1,204</span> boosts</a>
+              <a class="detailed-status__link" href="https://fosstodon.org/@bob@mastodon.social/200/favourites"><span class="detailed-status__favorites">3.4K</span> favorites</a>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({
+      id: 'mastodon:200',
+      type: 'post',
+      depth: 0,
+      textContent: 'The focal status of the thread.',
+      URL: 'https://mastodon.social/@bob/111',
+      metadata: {
+        author: 'bob@mastodon.social',
+        authorUrl: 'https://fosstodon.org/@bob@mastodon.social',
+        createdAt: '2024-02-03T12:00:00.000Z',
+        reposts: 1204,
+        likes: 3400
+      }
+    });
+  });
+
+  it('should chain ancestors to the focal status and attach descendants to it', async () => {
+    document.body.innerHTML = `
+      <div class="scrollable">
+        <div class="status__wrapper focusable" tabindex="0">
+          <div class="status status-public" data-id="100">
+            <div class="status__info">
+              <a href="https://fosstodon.org/@alice/100" class="status__relative-time"><time datetime="2024-02-01T10:00:00.000Z">1h</time></a>
+              <a href="https://fosstodon.org/@alice" class="status__display-name">
+                <span class="display-name"><bdi><strong class="display-name__html">alice</strong></bdi> <span class="display-name__account">@alice</span></span>
+              </a>
+            </div>
+            <div class="status__content"><div class="status__content__text status__content__text--visible translate"><p>The root of the conversation.</p></div></div>
+          </div>
+        </div>
+        <div class="status__wrapper focusable" tabindex="0">
+          <div class="status status-public" data-id="150">
+            <div class="status__info">
+              <a href="https://example.social/@carol/150" class="status__relative-time"><time datetime="2024-02-02T10:00:00.000Z">1h</time></a>
+              <a href="https://fosstodon.org/@carol@example.social" class="status__display-name">
+                <span class="display-name"><bdi><strong class="display-name__html">carol</strong></bdi> <span class="display-name__account">@carol@example.social</span></span>
+              </a>
+            </div>
+            <div class="status__content"><div class="status__content__text status__content__text--visible translate"><p>A reply to the root.</p></div></div>
+          </div>
+        </div>
+        <div class="detailed-status__wrapper focusable">
+          <div class="detailed-status detailed-status-public">
+            <a href="https://fosstodon.org/@bob@mastodon.social" class="detailed-status__display-name">
+              <span class="display-name"><strong class="display-name__html">Bob</strong> <span class="display-name__account">@bob@mastodon.social</span></span>
+            </a>
+            <div class="status__content"><div class="status__content__text status__content__text--visible translate"><p>The focal status of the thread.</p></div></div>
+            <div class="detailed-status__meta">
+              <a class="detailed-status__datetime" href="https://mastodon.social/@bob/111"><time datetime="2024-02-03T12:00:00.000Z">Feb 3, 2024</time></a>
+              <a class="detailed-status__link" href="https://fosstodon.org/@bob@mastodon.social/200/reblogs"><span class="detailed-status__reblogs">1,204</span> boosts</a>
+              <a class="detailed-status__link" href="https://fosstodon.org/@bob@mastodon.social/200/favourites"><span class="detailed-status__favorites">3.4K</span> favorites</a>
+            </div>
+          </div>
+        </div>
+        <div class="status__wrapper focusable" tabindex="0">
+          <div class="status status-public" data-id="300">
+            <div class="status__info">
+              <a href="https://fosstodon.org/@dave/300" class="status__relative-time"><time datetime="2024-02-04T10:00:00.000Z">1h</time></a>
+              <a href="https://fosstodon.org/@dave" class="status__display-name">
+                <span class="display-name"><bdi><strong class="display-name__html">dave</strong></bdi> <span class="display-name__account">@dave</span></span>
+              </a>
+            </div>
+            <div class="status__content"><div class="status__content__text status__content__text--visible translate"><p>A reply to the focal status.</p></div></div>
+            <div class="status__action-bar">
+              <button class="status__action-bar__button icon-button" title="Reply"><span class="icon-button__counter">1</span></button>
+              <button class="status__action-bar__button icon-button" title="Boost"><span class="icon-button__counter">2</span></button>
+              <button class="status__action-bar__button star-icon icon-button" title="Favorite"><span class="icon-button__counter">3</span></button>
+            </div>
+          </div>
+        </div>
+        <div class="status__wrapper focusable" tabindex="0">
+          <div class="status status-public" data-id="400">
+            <div class="status__info">
+              <a href="https://fosstodon.org/@erin/400" class="status__relative-time"><time datetime="2024-02-05T10:00:00.000Z">1h</time></a>
+              <a href="https://fosstodon.org/@erin" class="status__display-name">
+                <span class="display-name"><bdi><strong class="display-name__html">erin</strong></bdi> <span class="display-name__account">@erin</span></span>
+              </a>
+            </div>
+            <div class="status__content"><div class="status__content__text status__content__text--visible translate"><p>Another reply further down.</p></div></div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+    const [root, ancestor, focal, reply, other] = result.items;
+
+    expect(result.items.map(item => item.id)).toEqual([
+      'mastodon:100', 'mastodon:150', 'mastodon:200', 'mastodon:300', 'mastodon:400'
+    ]);
+    expect(root).toMatchObject({ type: 'post', depth: 0, childIds: [ancestor.id] });
+    expect(root.parentId).toBeUndefined();
+    expect(ancestor).toMatchObject({ type: 'comment', parentId: root.id, depth: 1 });
+    expect(focal).toMatchObject({ type: 'comment', parentId: ancestor.id, depth: 2, childIds: [reply.id, other.id] });
+    expect(reply).toMatchObject({
+      type: 'comment',
+      parentId: focal.id,
+      depth: 3,
+      URL: 'https://fosstodon.org/@dave/300',
+      metadata: { author: 'dave', replies: 1, reposts: 2, likes: 3 }
+    });
+    expect(other).toMatchObject({ parentId: focal.id, depth: 3 });
+  });
+
+  it('should keep timeline statuses as separate posts', async () => {
+    window.location.href = 'https://fosstodon.org/home';
+    document.body.innerHTML = `
+      <div class="item-list">
+        <div class="status__wrapper focusable" tabindex="0">
+          <div class="status status-public" data-id="100">
+            <div class="status__info">
+              <a href="https://fosstodon.org/@alice/100" class="status__relative-time"><time datetime="2024-02-01T10:00:00.000Z">1h</time></a>
+              <a href="https://fosstodon.org/@alice" class="status__display-name">
+                <span class="display-name"><bdi><strong class="display-name__html">alice</strong></bdi> <span class="display-name__account">@alice</span></span>
+              </a>
+            </div>
+            <div class="status__content"><div class="status__content__text status__content__text--visible translate"><p>A status in the home timeline.</p></div></div>
+          </div>
+        </div>
+        <div class="status__wrapper focusable" tabindex="0">
+          <div class="status status-public" data-id="150">
+            <div class="status__info">
+              <a href="https://example.social/@carol/150" class="status__relative-time"><time datetime="2024-02-02T10:00:00.000Z">1h</time></a>
+              <a href="https://fosstodon.org/@carol@example.social" class="status__display-name">
+                <span class="display-name"><bdi><strong class="display-name__html">carol</strong></bdi> <span class="display-name__account">@carol@example.social</span></span>
+              </a>
+            </div>
+            <div class="status__content"><div class="status__content__text status__content__text--visible translate"><p>Another status in the timeline.</p></div></div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items.map(item => [item.type, item.depth, item.parentId])).toEqual([
+      ['post', 0, undefined],
+      ['post', 0, undefined]
+    ]);
+  });
+
+  it('should report content warnings and keep the text behind them', async () => {
+    document.body.innerHTML = `
+      <div class="status__wrapper focusable" tabindex="0">
+        <div class="status status-public" data-id="100">
+          <div class="status__info">
+            <a href="https://fosstodon.org/@alice/100" class="status__relative-time"><time datetime="2024-02-01T10:00:00.000Z">1h</time></a>
+            <a href="https://fosstodon.org/@alice" class="status__display-name">
+              <span class="display-name"><bdi><strong class="display-name__html">alice</strong></bdi> <span class="display-name__account">@alice</span></span>
+            </a>
+          </div>
+          <div class="status__content status__content--with-spoiler">
+            <p><span class="p-summary">Spoilers for the finale</span> <button class="status__content__spoiler-link">Show more</button></p>
+            <div class="status__content__text translate" style="display: none"><p>The butler did it.</p></div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items[0].textContent).toBe('The butler did it.');
+    expect(result.items[0].metadata?.contentWarning).toBe('Spoilers for the finale');
+  });
+
+  it('should expand statuses hidden behind content warnings', async () => {
+    document.body.innerHTML = `
+      <div class="status__content"><p><span class="p-summary">CW</span> <button class="status__content__spoiler-link">Show more</button></p><div class="status__content__text"></div></div>
+      <div class="status__content"><p><span class="p-summary">CW</span> <button class="status__content__spoiler-link">Show less</button></p><div class="status__content__text status__content__text--visible"></div></div>
+    `;
+    const clicks: string[] = [];
+    document.querySelectorAll('button').forEach(button => button.addEventListener('click', () => clicks.push(button.textContent!)));
+
+    const expanded = await extractor.expand({ settleTime: 1 });
+
+    expect(expanded).toBe(1);
+    expect(clicks).toEqual(['Show more']);
+  });
+
+  it('should extract media and link cards as attachments', async () => {
+    document.body.innerHTML = `
+      <div class="status__wrapper focusable" tabindex="0">
+        <div class="status status-public" data-id="100">
+          <div class="status__info">
+            <a href="https://fosstodon.org/@alice/100" class="status__relative-time"><time datetime="2024-02-01T10:00:00.000Z">1h</time></a>
+            <a href="https://fosstodon.org/@alice" class="status__display-name">
+              <span class="display-name"><bdi><strong class="display-name__html">alice</strong></bdi> <span class="display-name__account">@alice</span></span>
+            </a>
+          </div>
+          <div class="status__content"><div class="status__content__text status__content__text--visible translate"><p>Photos from the trip.</p></div></div>
+          <div class="media-gallery">
+            <div class="media-gallery__item">
+              <a class="media-gallery__item-thumbnail" href="https://files.fosstodon.org/original/1.jpg"><img src="https://files.fosstodon.org/small/1.jpg" alt="A mountain lake"></a>
+            </div>
+          </div>
+          <div class="video-player"><video src="https://files.fosstodon.org/original/2.mp4" poster="https://files.fosstodon.org/small/2.png"></video></div>
+          <a class="status-card" href="https://example.com/trip">
+            <div class="status-card__image"><img src="https://files.fosstodon.org/cards/3.png"></div>
+            <div class="status-card__content"><strong class="status-card__title">Trip report</strong></div>
+          </a>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items[0].attachments).toEqual([
+      { kind: 'image', src: 'https://files.fosstodon.org/original/1.jpg', alt: 'A mountain lake' },
+      { kind: 'video', src: 'https://files.fosstodon.org/original/2.mp4', poster: 'https://files.fosstodon.org/small/2.png' },
+      { kind: 'link', src: 'https://example.com/trip', alt: 'Trip report', poster: 'https://files.fosstodon.org/cards/3.png' }
+    ]);
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OldRedditExtractor } from '../../extractors/oldreddit';
+
+// Mock window.location
+Object.defineProperty(window, 'location', {
+  value: {
+    href: 'https://old.reddit.com/r/programming/comments/abc123/test_post/'
+  },
+  writable: true
+});
+
+describe('OldRedditExtractor', () => {
+  let extractor: OldRedditExtractor;
+
+  beforeEach(() => {
+    extractor = new OldRedditExtractor(false);
+    // Reset DOM
+    document.body.innerHTML = '';
+    document.title = 'Test Old Reddit Page';
+
+    // Mock DOM APIs for visibility checking
+    Element.prototype.getBoundingClientRect = vi.fn(() => ({
+      width: 100, height: 50, top: 0, left: 0, right: 100, bottom: 50, x: 0, y: 0, toJSON: () => {}
+    }));
+    Object.defineProperty(HTMLElement.prototype, 'offsetParent', {
+      get() { return document.body; }, configurable: true
+    });
+    window.getComputedStyle = vi.fn(() => ({
+      display: 'block', visibility: 'visible'
+    } as CSSStyleDeclaration));
+  });
+
+  it('should extract basic page information', async () => {
+    const result = await extractor.extract();
+
+    expect(result.pageURL).toBe('https://old.reddit.com/r/programming/comments/abc123/test_post/');
+    expect(result.title).toBe('Test Old Reddit Page');
+    expect(result.items).toEqual([]);
+  });
+
+  it('should extract the submission with its title, self text and metadata', async () => {
+    document.body.innerHTML = `
+      <div id="siteTable" class="sitetable linklisting">
+        <div class="thing id-t3_abc123 self link" data-fullname="t3_abc123" data-author="op_user"
+             data-comments-count="42" data-permalink="/r/programming/comments/abc123/test_post/">
+          <div class="midcol unvoted">
+            <div class="score dislikes" title="1499">1.5k</div>
+            <div class="score unvoted" title="1500">1.5k</div>
+            <div class="score likes" title="1501">1.5k</div>
+          </div>
+          <div class="entry">
+            <p class="title"><a class="title" href="/r/programming/comments/abc123/test_post/">A post about testing</a></p>
+            <p class="tagline">submitted <time datetime="2024-01-02T03:04:05+00:00">5 hours ago</time> by <a class="author">op_user</a></p>
+            <div class="expando"><form class="usertext"><div class="usertext-body"><div class="md"><p>The self text of the post.</p></div></div></form></div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({
+      id: 'reddit:t3_abc123',
+      type: 'post',
+      depth: 0,
+      textContent: 'A post about testing\n\nThe self text of the post.',
+      URL: 'https://old.reddit.com/r/programming/comments/abc123/test_post/',
+      metadata: {
+        author: 'op_user',
+        authorUrl: 'https://old.reddit.com/user/op_user/',
+        createdAt: '2024-01-02T03:04:05.000Z',
+        score: 1500,
+        replies: 42
+      }
+    });
+  });
+
+  it('should extract comments with permalinks and metadata', async () => {
+    document.body.innerHTML = `
+      <div class="commentarea">
+        <div class="sitetable nestedlisting">
+          <div class="thing id-t1_aaa comment" data-fullname="t1_aaa" data-author="alice"
+               data-permalink="/r/programming/comments/abc123/test_post/aaa/">
+            <div class="entry">
+              <p class="tagline">
+                <a href="https://old.reddit.com/user/alice" class="author">alice</a>
+                <span class="score dislikes" title="11">11 points</span>
+                <span class="score unvoted" title="12">12 points</span>
+                <span class="score likes" title="13">13 points</span>
+                <time datetime="2024-01-02T05:00:00+00:00" class="live-timestamp">2 hours ago</time>
+              </p>
+              <form class="usertext"><div class="usertext-body"><div class="md"><p>A comment with enough content.</p></div></div></form>
+              <ul class="flat-list buttons"><li class="first"><a href="/r/programming/comments/abc123/test_post/aaa/" class="bylink">permalink</a></li></ul>
+            </div>
+            <div class="child"></div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0]).toMatchObject({
+      id: 'reddit:t1_aaa',
+      type: 'comment',
+      depth: 1,
+      textContent: 'A comment with enough content.',
+      URL: 'https://old.reddit.com/r/programming/comments/abc123/test_post/aaa/',
+      metadata: {
+        author: 'alice',
+        authorUrl: 'https://old.reddit.com/user/alice/',
+        createdAt: '2024-01-02T05:00:00.000Z',
+        score: 12
+      }
+    });
+  });
+
+  it('should rebuild comment nesting from .child containers', async () => {
+    document.body.innerHTML = `
+      <div id="siteTable" class="sitetable linklisting">
+        <div class="thing link" data-fullname="t3_abc123">
+          <div class="entry"><p class="title"><a class="title" href="https://example.com/">A linked article</a></p></div>
+        </div>
+      </div>
+      <div class="commentarea">
+        <div class="sitetable nestedlisting">
+          <div class="thing id-t1_aaa comment" data-fullname="t1_aaa" data-author="alice">
+            <div class="entry">
+              <p class="tagline"><a href="https://old.reddit.com/user/alice" class="author">alice</a></p>
+              <form class="usertext"><div class="usertext-body"><div class="md"><p>Top-level comment with content.</p></div></div></form>
+            </div>
+            <div class="child">
+              <div class="sitetable listing">
+                <div class="thing id-t1_bbb comment" data-fullname="t1_bbb" data-author="bob">
+                  <div class="entry">
+                    <p class="tagline"><a href="https://old.reddit.com/user/bob" class="author">bob</a></p>
+                    <form class="usertext"><div class="usertext-body"><div class="md"><p>Reply to the top-level comment.</p></div></div></form>
+                  </div>
+                  <div class="child">
+                    <div class="sitetable listing">
+                      <div class="thing id-t1_ccc comment" data-fullname="t1_ccc" data-author="carol">
+                        <div class="entry">
+                          <p class="tagline"><a href="https://old.reddit.com/user/carol" class="author">carol</a></p>
+                          <form class="usertext"><div class="usertext-body"><div class="md"><p>Reply to the reply, three deep.</p></div></div></form>
+                        </div>
+                        <div class="child"></div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+          <div class="thing id-t1_ddd comment" data-fullname="t1_ddd" data-author="dave">
+            <div class="entry">
+              <p class="tagline"><a href="https://old.reddit.com/user/dave" class="author">dave</a></p>
+              <form class="usertext"><div class="usertext-body"><div class="md"><p>Another top-level comment here.</p></div></div></form>
+            </div>
+            <div class="child"></div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+    const [post, top, reply, nested, other] = result.items;
+
+    expect(result.items.map(item => item.id)).toEqual([
+      'reddit:t3_abc123', 'reddit:t1_aaa', 'reddit:t1_bbb', 'reddit:t1_ccc', 'reddit:t1_ddd'
+    ]);
+    expect(post.childIds).toEqual([top.id, other.id]);
+    expect(top.parentId).toBe(post.id);
+    expect(reply.parentId).toBe(top.id);
+    expect(reply.depth).toBe(2);
+    expect(nested.parentId).toBe(reply.id);
+    expect(nested.depth).toBe(3);
+    expect(other.parentId).toBe(post.id);
+    expect(top.textContent).toBe('Top-level comment with content.');
+  });
+
+  it('should attach replies of hidden comments to the closest extracted ancestor', async () => {
+    document.body.innerHTML = `
+      <div class="commentarea">
+        <div class="thing id-t1_aaa comment" data-fullname="t1_aaa" data-author="alice">
+          <div class="entry">
+            <form class="usertext"><div class="usertext-body"><div class="md"><p>Top-level comment with content.</p></div></div></form>
+          </div>
+          <div class="child">
+            <div class="thing id-t1_bbb comment" data-fullname="t1_bbb" data-author="bob">
+              <div class="entry">
+                <form class="usertext"><div class="usertext-body" style="display: none"><div class="md"><p>Collapsed reply that is hidden.</p></div></div></form>
+              </div>
+              <div class="child">
+                <div class="thing id-t1_ccc comment" data-fullname="t1_ccc" data-author="carol">
+                  <div class="entry">
+                    <form class="usertext"><div class="usertext-body"><div class="md"><p>Reply below the collapsed one.</p></div></div></form>
+                  </div>
+                  <div class="child"></div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+
+    const result = await extractor.extract();
+
+    expect(result.items.map(item => item.id)).toEqual(['reddit:t1_aaa', 'reddit:t1_ccc']);
+    expect(result.items[1].parentId).toBe('reddit:t1_aaa');
+    expect(result.items[1].depth).toBe(3);
+  });
+
+  it('should include HTML content when includeHtml is true', async () => {
+    document.body.innerHTML = `
+      <div class="commentarea">
+        <div class="thing id-t1_aaa comment" data-fullname="t1_aaa" data-author="alice">
+          <div class="entry">
+            <form class="usertext"><div class="usertext-body"><div class="md"><p>Comment with <strong>bold</strong> text.</p></div></div></form>
+          </div>
+          <div class="child"></div>
+        </div>
+      </div>
+    `;
+
+    const result = await new OldRedditExtractor(true).extract();
+
+    expect(result.items[0].htmlContent).toContain('<strong>bold</strong>');
+  });
+
+  it('should expand collapsed comments and load more comments', async () => {
+    document.body.innerHTML = `
+      <div class="commentarea">
+        <div class="thing comment collapsed" data-fullname="t1_aaa">
+          <div class="entry"><p class="tagline"><a href="javascript:void(0)" class="expand">[+]</a></p></div>
+        </div>
+        <div class="thing comment" data-fullname="t1_bbb">
+          <div class="entry"><p class="tagline"><a href="javascript:void(0)" class="expand">[–]</a></p></div>
+        </div>
+        <div class="thing morechildren">
+          <div class="entry"><span class="morecomments"><a href="javascript:void(0)">load more comments (12 replies)</a></span></div>
+        </div>
+      </div>
+    `;
+    const clicks: string[] = [];
+    document.querySelectorAll('a').forEach(link => link.addEventListener('click', event => {
+      event.preventDefault();
+      clicks.push(link.textContent!);
+    }));
+
+    const expanded = await extractor.expand({ settleTime: 1 });
+
+    expect(expanded).toBe(2);
+    expect(clicks).toEqual(['[+]', 'load more comments (12 replies)']);
+  });
+});
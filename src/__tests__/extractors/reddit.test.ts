@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { RedditExtractor } from '../../extractors/reddit';
 import { SITE_SELECTORS } from '../../constants';
 
@@ -130,9 +130,15 @@ describe('RedditExtractor', () => {
         <div slot="comment">
           <p>First comment with sufficient content for extraction.</p>
         </div>
+        <div slot="commentMeta">
+          <a href="/r/test/comments/123/comment/multi2/"><faceplate-timeago>2 hours ago</faceplate-timeago></a>
+        </div>
         <div slot="comment">
           <p>Second comment with different content but also long enough.</p>
         </div>
+        <div slot="commentMeta">
+          <a href="/r/test/comments/123/comment/multi3/"><faceplate-timeago>1 hour ago</faceplate-timeago></a>
+        </div>
         <div slot="comment">
           <p>Third comment with unique content that meets the length requirement.</p>
         </div>
@@ -145,7 +151,11 @@ describe('RedditExtractor', () => {
       expect(result.items[1].textContent).toContain('Second comment');
       expect(result.items[2].textContent).toContain('Third comment');
       expect(result.items.every(item => item.type === 'comment')).toBe(true);
-      expect(result.items.every(item => item.URL === 'http://localhost:3000/r/test/comments/123/comment/multi1/')).toBe(true);
+      expect(result.items.map(item => item.URL)).toEqual([
+        'http://localhost:3000/r/test/comments/123/comment/multi1/',
+        'http://localhost:3000/r/test/comments/123/comment/multi2/',
+        'http://localhost:3000/r/test/comments/123/comment/multi3/'
+      ]);
     });
 
     it('should extract multiple posts', async () => {
@@ -174,6 +184,9 @@ describe('RedditExtractor', () => {
         </div>
         <div slot="comment">Short</div>
         <div slot="text-body">Also</div>
+        <div slot="commentMeta">
+          <a href="/r/test/comments/123/comment/jkl/"><faceplate-timeago>20 min ago</faceplate-timeago></a>
+        </div>
         <div slot="comment">
           <p>This comment has enough content to be extracted successfully.</p>
         </div>
@@ -183,17 +196,20 @@ describe('RedditExtractor', () => {
       
       expect(result.items).toHaveLength(1);
       expect(result.items[0].textContent).toContain('This comment has enough content');
-      expect(result.items[0].URL).toBe('http://localhost:3000/r/test/comments/123/comment/ghi/');
+      expect(result.items[0].URL).toBe('http://localhost:3000/r/test/comments/123/comment/jkl/');
     });
 
     it('should ignore hidden elements', async () => {
       document.body.innerHTML = `
         <div slot="commentMeta">
-          <a href="/r/test/comments/123/comment/visible/"><faceplate-timeago>1 hour ago</faceplate-timeago></a>
+          <a href="/r/test/comments/123/comment/hidden/"><faceplate-timeago>2 hours ago</faceplate-timeago></a>
         </div>
         <div slot="comment" style="display: none;">
           <p>Hidden comment that should not be extracted even with enough content.</p>
         </div>
+        <div slot="commentMeta">
+          <a href="/r/test/comments/123/comment/visible/"><faceplate-timeago>1 hour ago</faceplate-timeago></a>
+        </div>
         <div slot="comment">
           <p>Visible comment that should be extracted with sufficient content.</p>
         </div>
@@ -251,6 +267,9 @@ describe('RedditExtractor', () => {
         <div slot="comment">
           <p>First unique comment content that is long enough.</p>
         </div>
+        <div slot="commentMeta">
+          <a href="/r/test/comments/123/comment/unique2/"><faceplate-timeago>1 hour ago</faceplate-timeago></a>
+        </div>
         <div slot="comment">
           <p>Second unique comment content that is also long enough.</p>
         </div>
@@ -262,7 +281,8 @@ describe('RedditExtractor', () => {
       expect(result.items[0].id).not.toBe(result.items[1].id);
       expect(result.items[0].id).toBeTruthy();
       expect(result.items[1].id).toBeTruthy();
-      expect(result.items.every(item => item.URL === 'http://localhost:3000/r/test/comments/123/comment/unique1/')).toBe(true);
+      expect(result.items[0].URL).toBe('http://localhost:3000/r/test/comments/123/comment/unique1/');
+      expect(result.items[1].URL).toBe('http://localhost:3000/r/test/comments/123/comment/unique2/');
     });
 
     it('should handle complex nested Reddit structures', async () => {
@@ -353,7 +373,7 @@ describe('RedditExtractor', () => {
       expect(result.items[0].textContent).toContain('Great photo');
       expect(result.items[0].URL).toBe('http://localhost:3000/r/pics/comments/123/comment/img1/');
       expect(result.items[1].textContent).toContain('I can\'t believe');
-      expect(result.items[1].URL).toBe('http://localhost:3000/r/pics/comments/123/comment/img1/');
+      expect(result.items[1].URL).toBeUndefined(); // no meta slot of its own
     });
 
     it('should handle realistic Reddit comment thread structure', async () => {
@@ -404,7 +424,7 @@ describe('RedditExtractor', () => {
       expect(result.items[1].textContent).toContain('ReplyUser');
       expect(result.items[1].textContent).toContain('456 points');
       expect(result.items[1].textContent).toContain('completely agree');
-      expect(result.items[1].URL).toBe('http://localhost:3000/r/politics/comments/123/comment/realistic/');
+      expect(result.items[1].URL).toBeUndefined(); // no meta slot of its own
     });
 
     it('should handle comments with awards and complex formatting', async () => {
@@ -518,11 +538,11 @@ describe('RedditExtractor', () => {
       
       expect(result.items[1].textContent).toContain('gardener_pro');
       expect(result.items[1].textContent).toContain('devastating');
-      expect(result.items[1].URL).toBe('http://localhost:3000/r/pics/comments/123/comment/imagepost/');
+      expect(result.items[1].URL).toBeUndefined(); // no meta slot of its own
       
       expect(result.items[2].textContent).toContain('political_observer');
       expect(result.items[2].textContent).toContain('future administrations');
-      expect(result.items[2].URL).toBe('http://localhost:3000/r/pics/comments/123/comment/imagepost/');
+      expect(result.items[2].URL).toBeUndefined(); // no meta slot of its own
     });
 
     it('should handle text post with both post body and comments', async () => {
@@ -610,11 +630,11 @@ describe('RedditExtractor', () => {
       
       expect(commentItems[1].textContent).toContain('claude_fan');
       expect(commentItems[1].textContent).toContain('recent updates have been great');
-      expect(commentItems[1].URL).toBe('http://localhost:3000/r/anthropic/comments/123/comment/textpost/');
+      expect(commentItems[1].URL).toBeUndefined(); // no meta slot of its own
       
       expect(commentItems[2].textContent).toContain('tech_expert');
       expect(commentItems[2].textContent).toContain('balancing act');
-      expect(commentItems[2].URL).toBe('http://localhost:3000/r/anthropic/comments/123/comment/textpost/');
+      expect(commentItems[2].URL).toBeUndefined(); // no meta slot of its own
     });
 
     it('should handle comments without commentMeta (URL should be undefined)', async () => {
@@ -670,6 +690,187 @@ describe('RedditExtractor', () => {
       expect(result.items[1].URL).toBe('https://www.reddit.com/r/programming/comments/abc123/test_post/');
     });
 
+    it('should rebuild comment nesting from shreddit-comment hosts', async () => {
+      document.body.innerHTML = `
+        <div slot="text-body"><p>Post body that starts the discussion thread.</p></div>
+        <shreddit-comment>
+          <div slot="comment"><p>Top-level comment with enough content.</p></div>
+          <shreddit-comment>
+            <div slot="comment"><p>Reply to the top-level comment.</p></div>
+            <shreddit-comment>
+              <div slot="comment"><p>Reply to the reply, three levels deep.</p></div>
+            </shreddit-comment>
+          </shreddit-comment>
+        </shreddit-comment>
+        <shreddit-comment>
+          <div slot="comment"><p>Another top-level comment here.</p></div>
+        </shreddit-comment>
+      `;
+
+      const result = await extractor.extract();
+      const [top, reply, nested, other, post] = result.items;
+
+      expect(result.items).toHaveLength(5);
+      expect(post.type).toBe('post');
+      expect(post.depth).toBe(0);
+      expect(post.childIds).toEqual([top.id, other.id]);
+      expect(top.depth).toBe(1);
+      expect(top.parentId).toBe(post.id);
+      expect(reply.depth).toBe(2);
+      expect(reply.parentId).toBe(top.id);
+      expect(nested.depth).toBe(3);
+      expect(nested.parentId).toBe(reply.id);
+      expect(other.parentId).toBe(post.id);
+    });
+
+    it('should resolve each comment permalink from its own shreddit-comment', async () => {
+      document.body.innerHTML = `
+        <shreddit-comment thingid="t1_aaa" depth="0" parentid="t3_post" permalink="/r/test/comments/post/comment/aaa/">
+          <div slot="comment"><p>Top-level comment with enough content.</p></div>
+          <shreddit-comment thingid="t1_bbb" depth="1" parentid="t1_aaa">
+            <div slot="commentMeta">
+              <a href="/r/test/comments/post/comment/bbb/"><faceplate-timeago ts="2024-01-02T06:00:00.000000+0000">1h ago</faceplate-timeago></a>
+            </div>
+            <div slot="comment"><p>Reply with its permalink in the meta slot.</p></div>
+          </shreddit-comment>
+        </shreddit-comment>
+        <shreddit-comment thingid="t1_ccc" depth="0" parentid="t3_post">
+          <div slot="comment"><p>Comment without any permalink at all.</p></div>
+        </shreddit-comment>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items.map(item => item.URL)).toEqual([
+        'https://www.reddit.com/r/test/comments/post/comment/aaa/',
+        'http://localhost:3000/r/test/comments/post/comment/bbb/',
+        undefined
+      ]);
+    });
+
+    it('should use the thing id, parent id and depth attributes of shreddit-comment', async () => {
+      // Replies loaded by "more replies" can end up outside their parent's element
+      document.body.innerHTML = `
+        <shreddit-post id="t3_post">
+          <div slot="text-body"><p>Post body that starts the discussion thread.</p></div>
+        </shreddit-post>
+        <shreddit-comment thingid="t1_aaa" depth="0" parentid="t3_post">
+          <div slot="comment"><p>Top-level comment with enough content.</p></div>
+        </shreddit-comment>
+        <shreddit-comment thingid="t1_bbb" depth="1" parentid="t1_aaa">
+          <div slot="comment"><p>Reply loaded separately from its parent.</p></div>
+        </shreddit-comment>
+      `;
+
+      const result = await extractor.extract();
+      const [top, reply, post] = result.items;
+
+      expect(top.id).toBe('reddit:t1_aaa');
+      expect(top.depth).toBe(1);
+      expect(top.parentId).toBe('reddit:t3_post');
+      expect(reply.id).toBe('reddit:t1_bbb');
+      expect(reply.depth).toBe(2);
+      expect(reply.parentId).toBe('reddit:t1_aaa');
+      expect(post.childIds).toEqual(['reddit:t1_aaa']);
+    });
+
+    it('should extract post and comment metadata from shreddit attributes', async () => {
+      document.body.innerHTML = `
+        <shreddit-post author="op_user" score="1.5k" comment-count="42" created-timestamp="2024-01-02T03:04:05.678000+0000">
+          <div slot="text-body"><p>Post body that starts the discussion thread.</p></div>
+        </shreddit-post>
+        <shreddit-comment author="commenter" score="17">
+          <div slot="commentMeta">
+            <a href="/r/test/comments/123/comment/abc/"><faceplate-timeago ts="2024-01-02T05:00:00.000000+0000">2h ago</faceplate-timeago></a>
+          </div>
+          <div slot="comment"><p>Top-level comment with enough content.</p></div>
+          <shreddit-comment author="[deleted]" score="1">
+            <div slot="commentMeta">
+              <a href="/r/test/comments/123/comment/def/"><faceplate-timeago ts="2024-01-02T06:00:00.000000+0000">1h ago</faceplate-timeago></a>
+            </div>
+            <div slot="comment"><p>Reply from an account that was deleted.</p></div>
+          </shreddit-comment>
+        </shreddit-comment>
+      `;
+
+      const result = await extractor.extract();
+      const [comment, reply, post] = result.items;
+
+      expect(post.metadata).toEqual({
+        author: 'op_user',
+        authorUrl: 'https://www.reddit.com/user/op_user/',
+        createdAt: '2024-01-02T03:04:05.678Z',
+        score: 1500,
+        replies: 42
+      });
+      expect(comment.metadata).toEqual({
+        author: 'commenter',
+        authorUrl: 'https://www.reddit.com/user/commenter/',
+        createdAt: '2024-01-02T05:00:00.000Z',
+        score: 17
+      });
+      expect(reply.metadata!.author).toBe('[deleted]');
+      expect(reply.metadata!.authorUrl).toBeUndefined();
+      expect(reply.metadata!.createdAt).toBe('2024-01-02T06:00:00.000Z');
+    });
+
+    it('should use Reddit thing ids as stable item ids', async () => {
+      document.body.innerHTML = `
+        <shreddit-post id="t3_abc123" author="op_user">
+          <div slot="text-body"><p>Post body that starts the discussion thread.</p></div>
+        </shreddit-post>
+        <shreddit-comment thingid="t1_first" author="alice">
+          <div slot="comment"><p>This exact text appears twice.</p></div>
+        </shreddit-comment>
+        <shreddit-comment thingid="t1_second" author="alice">
+          <div slot="comment"><p>This exact text appears twice.</p></div>
+        </shreddit-comment>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items.map(item => item.id)).toEqual(['reddit:t1_first', 'reddit:t1_second', 'reddit:t3_abc123']);
+      expect(result.items[0].parentId).toBe('reddit:t3_abc123');
+    });
+
+    it('should keep hashed ids of identical comments distinct and stable', async () => {
+      document.body.innerHTML = `
+        <shreddit-comment author="alice">
+          <div slot="comment"><p>This exact text appears twice.</p></div>
+        </shreddit-comment>
+        <shreddit-comment author="alice">
+          <div slot="comment"><p>This exact text appears twice.</p></div>
+        </shreddit-comment>
+      `;
+
+      const first = await extractor.extract();
+      const second = await extractor.extract();
+
+      expect(first.items[0].id).not.toBe(first.items[1].id);
+      expect(second.items.map(item => item.id)).toEqual(first.items.map(item => item.id));
+    });
+
+    it('should attach replies of skipped comments to the closest extracted ancestor', async () => {
+      document.body.innerHTML = `
+        <shreddit-comment>
+          <div slot="comment"><p>Top-level comment with enough content.</p></div>
+          <shreddit-comment>
+            <div slot="comment">ok</div>
+            <shreddit-comment>
+              <div slot="comment"><p>Reply below a comment that is too short.</p></div>
+            </shreddit-comment>
+          </shreddit-comment>
+        </shreddit-comment>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items).toHaveLength(2);
+      expect(result.items[0].parentId).toBeUndefined();
+      expect(result.items[1].parentId).toBe(result.items[0].id);
+      expect(result.items[1].depth).toBe(3);
+    });
+
     it('should handle realistic Reddit thread structure from actual Reddit', async () => {
       // Based on real Reddit thread structure observed at:
       // https://www.reddit.com/r/Anthropic/comments/1m0ye5y/kimi_k2_vs_claude_vs_openai_cursor_realworld/
@@ -752,7 +953,7 @@ describe('RedditExtractor', () => {
       
       expect(commentItems[1].textContent).toContain('Both-Basis-3723');
       expect(commentItems[1].textContent).toContain('I believe KIMI doesn\'t have reasoning yet');
-      expect(commentItems[1].URL).toBe('http://localhost:3000/r/Anthropic/comments/1m0ye5y/comment/n3dkgky/');
+      expect(commentItems[1].URL).toBeUndefined(); // no meta slot of its own
       
       // Validate that all items have proper structure
       result.items.forEach(item => {
@@ -764,5 +965,230 @@ describe('RedditExtractor', () => {
         expect(['post', 'comment']).toContain(item.type);
       });
     });
+
+    it('should extract link posts from their title and outbound URL', async () => {
+      document.body.innerHTML = `
+        <shreddit-post id="t3_link" post-type="link" author="op_user" domain="example.com"
+                       content-href="https://example.com/article?utm=1">
+          <h1 slot="title">An article worth discussing</h1>
+        </shreddit-post>
+        <shreddit-comment thingid="t1_aaa">
+          <div slot="comment"><p>Comment on the linked article.</p></div>
+        </shreddit-comment>
+      `;
+
+      const result = await extractor.extract();
+      const post = result.items.find(item => item.type === 'post')!;
+
+      expect(post).toMatchObject({
+        id: 'reddit:t3_link',
+        textContent: 'An article worth discussing',
+        element: document.querySelector('shreddit-post'),
+        metadata: {
+          title: 'An article worth discussing',
+          linkUrl: 'https://example.com/article?utm=1',
+          domain: 'example.com'
+        }
+      });
+      expect(result.items[0].parentId).toBe('reddit:t3_link');
+    });
+
+    it('should capture the title alongside the text body of self posts', async () => {
+      document.body.innerHTML = `
+        <shreddit-post id="t3_self" post-title="A question about testing"
+                       content-href="https://www.reddit.com/r/programming/comments/abc123/test_post/">
+          <div slot="text-body"><p>The body of the self post with details.</p></div>
+        </shreddit-post>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].textContent).toBe('The body of the self post with details.');
+      expect(result.items[0].metadata!.title).toBe('A question about testing');
+      expect(result.items[0].metadata!.linkUrl).toBeUndefined();
+    });
+
+    it('should capture image, gallery and video URLs', async () => {
+      document.body.innerHTML = `
+        <shreddit-post id="t3_image" post-type="image" post-title="A single image">
+          <div slot="post-media-container">
+            <img class="post-background-image-filter" src="https://preview.redd.it/one.jpg">
+            <img class="media-lightbox-img" src="https://preview.redd.it/one.jpg" alt="One">
+          </div>
+        </shreddit-post>
+        <shreddit-post id="t3_gallery" post-type="gallery" post-title="A gallery of images">
+          <div slot="post-media-container">
+            <gallery-carousel>
+              <ul>
+                <li slot="page-1"><figure><img src="https://preview.redd.it/a.jpg"></figure></li>
+                <li slot="page-2"><figure><img src="data:image/gif;base64,R0lGOD" data-lazy-src="https://preview.redd.it/b.jpg"></figure></li>
+              </ul>
+            </gallery-carousel>
+          </div>
+        </shreddit-post>
+        <shreddit-post id="t3_video" post-type="video" post-title="A video clip">
+          <div slot="post-media-container">
+            <shreddit-player src="https://v.redd.it/abc/HLSPlaylist.m3u8" poster="https://preview.redd.it/poster.jpg"></shreddit-player>
+          </div>
+        </shreddit-post>
+        <shreddit-post id="t3_unrendered" post-type="image" post-title="An image not rendered yet"
+                       content-href="https://i.redd.it/two.png">
+        </shreddit-post>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items.map(item => [item.metadata!.title, item.metadata!.mediaUrls])).toEqual([
+        ['A single image', ['https://preview.redd.it/one.jpg']],
+        ['A gallery of images', ['https://preview.redd.it/a.jpg', 'https://preview.redd.it/b.jpg']],
+        ['A video clip', ['https://v.redd.it/abc/HLSPlaylist.m3u8']],
+        ['An image not rendered yet', ['https://i.redd.it/two.png']]
+      ]);
+      expect(result.items[3].metadata!.linkUrl).toBeUndefined();
+    });
+
+    it('should extract post media and outbound links as attachments', async () => {
+      document.body.innerHTML = `
+        <shreddit-post id="t3_image" post-type="image" post-title="A single image">
+          <div slot="post-media-container">
+            <img class="post-background-image-filter" src="https://preview.redd.it/one.jpg">
+            <img class="media-lightbox-img" src="https://preview.redd.it/one.jpg" alt="One" width="1080" height="720">
+          </div>
+        </shreddit-post>
+        <shreddit-post id="t3_video" post-type="video" post-title="A video clip">
+          <div slot="post-media-container">
+            <shreddit-player src="https://v.redd.it/abc/HLSPlaylist.m3u8" poster="https://preview.redd.it/poster.jpg"></shreddit-player>
+          </div>
+        </shreddit-post>
+        <shreddit-post id="t3_link" post-type="link" post-title="An article worth discussing"
+                       content-href="https://example.com/article">
+          <div slot="thumbnail"><img src="https://b.thumbs.redditmedia.com/thumb.jpg"></div>
+        </shreddit-post>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items.map(item => item.attachments)).toEqual([
+        [{ kind: 'image', src: 'https://preview.redd.it/one.jpg', alt: 'One', width: 1080, height: 720 }],
+        [{ kind: 'video', src: 'https://v.redd.it/abc/HLSPlaylist.m3u8', poster: 'https://preview.redd.it/poster.jpg' }],
+        [{
+          kind: 'link',
+          src: 'https://example.com/article',
+          alt: 'An article worth discussing',
+          poster: 'https://b.thumbs.redditmedia.com/thumb.jpg'
+        }]
+      ]);
+    });
+
+    it('should capture poll options', async () => {
+      document.body.innerHTML = `
+        <shreddit-post id="t3_poll" post-type="poll" post-title="Which editor do you use?">
+          <shreddit-poll>
+            <ul>
+              <li>Vim</li>
+              <li>Emacs</li>
+              <li>Something else</li>
+            </ul>
+          </shreddit-poll>
+        </shreddit-post>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items[0].textContent).toBe('Which editor do you use?');
+      expect(result.items[0].metadata!.pollOptions).toEqual(['Vim', 'Emacs', 'Something else']);
+    });
+
+    it('should expand "more replies" buttons', async () => {
+      document.body.innerHTML = `
+        <shreddit-comment thingid="t1_aaa">
+          <div slot="comment"><p>Top-level comment with enough content.</p></div>
+          <faceplate-partial loading="action" src="/svc/shreddit/more-comments/test/t1_aaa">
+            <button>2 more replies</button>
+          </faceplate-partial>
+        </shreddit-comment>
+      `;
+      let clicks = 0;
+      document.querySelector('faceplate-partial button')!.addEventListener('click', () => clicks++);
+
+      const expanded = await extractor.expand({ settleTime: 1 });
+
+      expect(expanded).toBe(1);
+      expect(clicks).toBe(1);
+    });
   });
-});
\ No newline at end of file
+
+  describe('listing pages', () => {
+    beforeEach(() => {
+      window.location.href = 'https://www.reddit.com/r/programming/';
+    });
+
+    afterEach(() => {
+      window.location.href = 'https://www.reddit.com/r/programming/comments/abc123/test_post/';
+    });
+
+    it('should extract every post with its listing details', async () => {
+      document.body.innerHTML = `
+        <shreddit-feed>
+          <shreddit-post id="t3_link1" post-title="A linked article about compilers" author="alice"
+                         subreddit-prefixed-name="r/programming" score="1.2k" comment-count="87"
+                         created-timestamp="2024-01-02T03:04:05.000000+0000" domain="example.com"
+                         permalink="/r/programming/comments/link1/a_linked_article/"
+                         content-href="https://example.com/compilers">
+            <shreddit-post-flair slot="post-flair"><a href="/r/programming/?f=flair_name%3A%22Article%22"><div class="flair-content">Article</div></a></shreddit-post-flair>
+            <a slot="title" href="/r/programming/comments/link1/a_linked_article/">A linked article about compilers</a>
+          </shreddit-post>
+          <shreddit-post id="t3_self2" author="bob" subreddit-name="programming" score="5" comment-count="0"
+                         domain="self.programming" permalink="/r/programming/comments/self2/a_question/"
+                         content-href="https://www.reddit.com/r/programming/comments/self2/a_question/">
+            <a slot="title" href="/r/programming/comments/self2/a_question/">A question about testing</a>
+            <div slot="text-body"><p>Preview of the self text that is not extracted on listings.</p></div>
+          </shreddit-post>
+        </shreddit-feed>
+      `;
+
+      const result = await extractor.extract();
+      const [link, self] = result.items;
+
+      expect(result.items).toHaveLength(2);
+      expect(link).toMatchObject({
+        id: 'reddit:t3_link1',
+        type: 'post',
+        depth: 0,
+        textContent: 'A linked article about compilers',
+        URL: 'https://www.reddit.com/r/programming/comments/link1/a_linked_article/',
+        metadata: {
+          author: 'alice',
+          authorUrl: 'https://www.reddit.com/user/alice/',
+          createdAt: '2024-01-02T03:04:05.000Z',
+          score: 1200,
+          replies: 87,
+          subreddit: 'r/programming',
+          flair: 'Article',
+          title: 'A linked article about compilers',
+          linkUrl: 'https://example.com/compilers',
+          domain: 'example.com'
+        }
+      });
+      expect(self.textContent).toBe('A question about testing');
+      expect(self.metadata).toMatchObject({ subreddit: 'r/programming', score: 5, replies: 0 });
+      expect(self.metadata!.linkUrl).toBeUndefined();
+      expect(self.metadata!.domain).toBeUndefined();
+      expect(self.metadata!.flair).toBeUndefined();
+      expect(link.parentId).toBeUndefined();
+      expect(self.parentId).toBeUndefined();
+    });
+
+    it('should skip hidden posts', async () => {
+      document.body.innerHTML = `
+        <shreddit-post id="t3_shown" post-title="A post that is shown" permalink="/r/programming/comments/shown/x/"></shreddit-post>
+        <shreddit-post id="t3_hidden" post-title="A post that is hidden" style="display: none"></shreddit-post>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items.map(item => item.id)).toEqual(['reddit:t3_shown']);
+    });
+  });
+});
@@ -77,6 +77,33 @@ describe('TwitterExtractor', () => {
       expect(result.items[0].selected).toBe(false);
     });
 
+    it('should extract author, timestamp and engagement metadata', async () => {
+      document.body.innerHTML = `
+        <article data-testid="tweet">
+          <div data-testid="User-Name">
+            <a href="/iannuttall"><span>Ian Nuttall</span></a>
+            <a href="/iannuttall"><span>@iannuttall</span></a>
+            <a href="/iannuttall/status/1945060688319197210"><time datetime="2025-07-15T11:59:00.000Z">Jul 15</time></a>
+          </div>
+          <div data-testid="tweetText"><span>This is a tweet with enough content to be extracted.</span></div>
+          <div role="group">
+            <button data-testid="reply" aria-label="247 Replies. Reply"><span>247</span></button>
+            <button data-testid="like" aria-label="1484 Likes. Like"><span>1.4K</span></button>
+          </div>
+        </article>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items[0].metadata).toEqual({
+        author: 'iannuttall',
+        authorUrl: 'http://localhost:3000/iannuttall',
+        createdAt: '2025-07-15T11:59:00.000Z',
+        likes: 1484,
+        replies: 247
+      });
+    });
+
     it('should extract tweets using direct tweetText selector', async () => {
       document.body.innerHTML = `
         <div data-testid="tweetText">
@@ -316,6 +343,220 @@ describe('TwitterExtractor', () => {
       expect(result.items[1].id).toBeTruthy();
     });
 
+    it('should use the status id from the timestamp link as item id', async () => {
+      document.body.innerHTML = `
+        <article data-testid="tweet">
+          <a href="/someone/status/111"><time datetime="2025-07-15T11:59:00.000Z">Jul 15</time></a>
+          <div data-testid="tweetText"><span>Tweet quoting another tweet.</span></div>
+          <a href="/other/status/222">Quoted tweet</a>
+        </article>
+        <article data-testid="tweet">
+          <div data-testid="tweetText"><span>Tweet without a status link.</span></div>
+        </article>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items[0].id).toBe('twitter:111');
+      expect(result.items[1].id).toMatch(/^\d+$/);
+    });
+
+    it('should reconstruct the conversation around the focal tweet', async () => {
+      const tweet = (handle: string, statusId: string, text: string) => `
+        <article data-testid="tweet">
+          <div data-testid="User-Name">
+            <a href="/${handle}"><span>@${handle}</span></a>
+            <a href="/${handle}/status/${statusId}"><time datetime="2025-07-15T11:59:00.000Z">Jul 15</time></a>
+          </div>
+          <div data-testid="tweetText"><span>${text}</span></div>
+        </article>
+      `;
+
+      document.body.innerHTML = `
+        ${tweet('iannuttall', '1945060688319197210', 'The first tweet of a self-thread.')}
+        ${tweet('iannuttall', '1945060688319197211', 'The thread continues in a second tweet.')}
+        ${tweet('cyphorous', '1945060688319197300', 'A reply from somebody else.')}
+        ${tweet('iannuttall', '1945060688319197400', 'The author answering that reply.')}
+      `;
+
+      const result = await extractor.extract();
+      const [focal, continuation, reply, authorReply] = result.items;
+
+      expect(focal).toMatchObject({
+        id: 'twitter:1945060688319197210',
+        type: 'post',
+        depth: 0,
+        URL: 'http://localhost:3000/iannuttall/status/1945060688319197210'
+      });
+      expect(continuation).toMatchObject({ type: 'post', depth: 0 });
+      expect(continuation.parentId).toBeUndefined();
+      expect(reply).toMatchObject({ type: 'comment', depth: 1, parentId: focal.id });
+      expect(reply.metadata!.author).toBe('cyphorous');
+      expect(authorReply).toMatchObject({ type: 'comment', depth: 1, parentId: focal.id });
+      expect(focal.childIds).toEqual([reply.id, authorReply.id]);
+    });
+
+    it('should chain the tweets above a focal reply up to the thread root', async () => {
+      window.location.href = 'https://x.com/bob/status/2';
+      try {
+        document.body.innerHTML = `
+          <article data-testid="tweet">
+            <div data-testid="User-Name">
+              <a href="/alice"><span>@alice</span></a>
+              <a href="/alice/status/1"><time datetime="2025-07-15T09:00:00.000Z">Jul 15</time></a>
+            </div>
+            <div data-testid="tweetText"><span>The tweet that started it all.</span></div>
+          </article>
+          <article data-testid="tweet">
+            <div data-testid="User-Name">
+              <a href="/bob"><span>@bob</span></a>
+              <a href="/bob/status/2"><time datetime="2025-07-15T10:00:00.000Z">Jul 15</time></a>
+            </div>
+            <div data-testid="tweetText"><span>Replying to alice, the focal tweet.</span></div>
+          </article>
+          <article data-testid="tweet">
+            <div data-testid="User-Name">
+              <a href="/carol"><span>@carol</span></a>
+              <a href="/carol/status/3"><time datetime="2025-07-15T11:00:00.000Z">Jul 15</time></a>
+            </div>
+            <div data-testid="tweetText"><span>Replying to bob's reply.</span></div>
+          </article>
+        `;
+
+        const result = await extractor.extract();
+
+        expect(result.items.map(({ id, type, parentId, depth }) => ({ id, type, parentId, depth }))).toEqual([
+          { id: 'twitter:1', type: 'post', parentId: undefined, depth: 0 },
+          { id: 'twitter:2', type: 'comment', parentId: 'twitter:1', depth: 1 },
+          { id: 'twitter:3', type: 'comment', parentId: 'twitter:2', depth: 2 }
+        ]);
+        expect(result.items[0].childIds).toEqual(['twitter:2']);
+      } finally {
+        window.location.href = 'https://x.com/iannuttall/status/1945060688319197210';
+      }
+    });
+
+    it('should keep every tweet a post outside of status pages', async () => {
+      window.location.href = 'https://x.com/home';
+      try {
+        document.body.innerHTML = `
+          <article data-testid="tweet">
+            <div data-testid="User-Name"><a href="/someone"><span>@someone</span></a></div>
+            <div data-testid="tweetText"><span>A tweet in the home timeline.</span></div>
+          </article>
+          <article data-testid="tweet">
+            <div data-testid="User-Name"><a href="/another"><span>@another</span></a></div>
+            <div data-testid="tweetText"><span>Another tweet in the timeline.</span></div>
+          </article>
+        `;
+
+        const result = await extractor.extract();
+
+        expect(result.items.map(item => item.type)).toEqual(['post', 'post']);
+        expect(result.items.map(item => item.depth)).toEqual([0, 0]);
+      } finally {
+        window.location.href = 'https://x.com/iannuttall/status/1945060688319197210';
+      }
+    });
+
+    it('should extract quoted tweets as embedded child items', async () => {
+      document.body.innerHTML = `
+        <article data-testid="tweet">
+          <div data-testid="User-Name">
+            <a href="/iannuttall"><span>@iannuttall</span></a>
+            <a href="/iannuttall/status/1945060688319197210"><time datetime="2025-07-15T11:59:00.000Z">Jul 15</time></a>
+          </div>
+          <div data-testid="tweetText"><span>Look at what they said here.</span></div>
+          <div role="link" tabindex="0">
+            <div data-testid="User-Name"><span>Quoted Person</span><span>@quoted</span></div>
+            <time datetime="2025-07-14T08:00:00.000Z">Jul 14</time>
+            <div data-testid="tweetText"><span>The original quoted statement.</span></div>
+          </div>
+          <button data-testid="like" aria-label="10 Likes. Like"><span>10</span></button>
+        </article>
+      `;
+
+      const result = await extractor.extract();
+      const [quoting, quoted] = result.items;
+
+      expect(result.items).toHaveLength(2);
+      expect(quoting.textContent).toBe('Look at what they said here.');
+      expect(quoting.metadata!.likes).toBe(10);
+      expect(quoting.childIds).toEqual([quoted.id]);
+      expect(quoted).toMatchObject({
+        type: 'post',
+        depth: 1,
+        parentId: quoting.id,
+        textContent: 'The original quoted statement.',
+        metadata: {
+          author: 'quoted',
+          authorUrl: 'https://x.com/quoted',
+          createdAt: '2025-07-14T08:00:00.000Z'
+        }
+      });
+      expect(quoted.metadata!.likes).toBeUndefined();
+    });
+
+    it('should extract photos, videos and link cards as attachments', async () => {
+      document.body.innerHTML = `
+        <article data-testid="tweet">
+          <div data-testid="User-Name">
+            <a href="/iannuttall"><span>@iannuttall</span></a>
+            <a href="/iannuttall/status/1945060688319197210"><time datetime="2025-07-15T11:59:00.000Z">Jul 15</time></a>
+          </div>
+          <div data-testid="tweetText"><span>Screenshots, a demo and the write-up.</span></div>
+          <div data-testid="tweetPhoto"><img alt="Settings screen" src="https://pbs.twimg.com/media/a.jpg?format=jpg&amp;name=small"></div>
+          <div data-testid="tweetPhoto">
+            <div data-testid="videoPlayer">
+              <video poster="https://pbs.twimg.com/thumb/b.jpg" src="https://video.twimg.com/b.mp4"></video>
+              <img src="https://pbs.twimg.com/thumb/b.jpg">
+            </div>
+          </div>
+          <div data-testid="card.wrapper">
+            <a href="https://t.co/abc123" aria-label="example.com The full write-up">
+              <img src="https://pbs.twimg.com/card_img/c.jpg">
+            </a>
+          </div>
+          <div role="link" tabindex="0">
+            <div data-testid="User-Name"><span>Quoted Person</span><span>@quoted</span></div>
+            <div data-testid="tweetText"><span>The quoted tweet with its own photo.</span></div>
+            <div data-testid="tweetPhoto"><img alt="Quoted photo" src="https://pbs.twimg.com/media/d.jpg"></div>
+          </div>
+        </article>
+      `;
+
+      const result = await extractor.extract();
+      const [tweet, quoted] = result.items;
+
+      expect(tweet.attachments).toEqual([
+        { kind: 'image', src: 'https://pbs.twimg.com/media/a.jpg?format=jpg&name=small', alt: 'Settings screen' },
+        { kind: 'video', src: 'https://video.twimg.com/b.mp4', poster: 'https://pbs.twimg.com/thumb/b.jpg' },
+        { kind: 'link', src: 'https://t.co/abc123', alt: 'example.com The full write-up', poster: 'https://pbs.twimg.com/card_img/c.jpg' }
+      ]);
+      expect(quoted.attachments).toEqual([
+        { kind: 'image', src: 'https://pbs.twimg.com/media/d.jpg', alt: 'Quoted photo' }
+      ]);
+    });
+
+    it('should extract tweet links with the targets behind t.co', async () => {
+      document.body.innerHTML = `
+        <article data-testid="tweet">
+          <div data-testid="User-Name"><a href="/iannuttall"><span>@iannuttall</span></a></div>
+          <div data-testid="tweetText">
+            <span>Wrote this up, thanks </span><a href="https://x.com/someone">@someone</a>
+            <a href="https://t.co/abc123"><span class="r-qvk6io">https://</span><span>example.com/posts/wri</span><span class="r-qvk6io">te-up</span><span>…</span></a>
+          </div>
+        </article>
+      `;
+
+      const result = await extractor.extract();
+
+      expect(result.items[0].links).toEqual([
+        { href: 'https://x.com/someone', text: '@someone', canonicalUrl: undefined, internal: true },
+        { href: 'https://t.co/abc123', text: 'https://example.com/posts/write-up…', canonicalUrl: 'https://example.com/posts/write-up', internal: false }
+      ]);
+    });
+
     it('should handle complex nested Twitter structures', async () => {
       document.body.innerHTML = `
         <article data-testid="tweet">
@@ -748,5 +989,25 @@ describe('TwitterExtractor', () => {
       expect(result.items[0].textContent).toContain('mixed tags');
       expect(result.items[0].textContent).toContain('Valid content after malformed');
     });
+
+    it('should expand truncated tweets and replies hidden as probable spam', async () => {
+      document.body.innerHTML = `
+        <article data-testid="tweet">
+          <div data-testid="tweetText"><span>A long tweet that is cut off...</span></div>
+          <button data-testid="tweet-text-show-more-link">Show more</button>
+        </article>
+        <button role="button"><span>Show probable spam</span></button>
+        <button role="button"><span>Follow</span></button>
+      `;
+      const clicks: string[] = [];
+      document.querySelectorAll('button').forEach(button => {
+        button.addEventListener('click', () => clicks.push(button.textContent!.trim()));
+      });
+
+      const expanded = await extractor.expand({ settleTime: 1 });
+
+      expect(expanded).toBe(2);
+      expect(clicks).toEqual(['Show more', 'Show probable spam']);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,179 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Window } from 'happy-dom';
+import { extractFrom, extractFromHtml } from '../headless';
+import { toMarkdown } from '../serializers/markdown';
+import { ExtractorRegistry } from '../registry';
+import { HackerNewsExtractor } from '../extractors/hackernews';
+
+const HN_THREAD = `
+  <html>
+    <head><title>A saved HN thread</title></head>
+    <body>
+      <table class="fatitem">
+        <tr class="athing submission" id="100">
+          <td class="title"><span class="titleline"><a href="https://example.com/story">Saved Story</a></span></td>
+        </tr>
+        <tr>
+          <td class="subtext">
+            <span class="score">10 points</span> by <a href="user?id=op" class="hnuser">op</a>
+            <span class="age" title="2023-08-02T08:00:00 1690963200"><a href="item?id=100">2 hours ago</a></span>
+          </td>
+        </tr>
+      </table>
+      <table class="comment-tree">
+        <tr class="athing comtr" id="101">
+          <td><table><tr>
+            <td class="ind" indent="0"><img src="s.gif" height="1" width="0"></td>
+            <td class="default">
+              <div class="comhead">
+                <a href="user?id=alice" class="hnuser">alice</a>
+                <span class="age"><a href="item?id=101">1 hour ago</a></span>
+              </div>
+              <div class="comment"><div class="commtext c00">A comment from the saved page, long enough.</div></div>
+            </td>
+          </tr></table></td>
+        </tr>
+        <tr class="athing comtr" id="102" hidden>
+          <td><table><tr>
+            <td class="ind" indent="0"><img src="s.gif" height="1" width="0"></td>
+            <td class="default">
+              <div class="comment"><div class="commtext c00">A collapsed comment that should be skipped.</div></div>
+            </td>
+          </tr></table></td>
+        </tr>
+      </table>
+    </body>
+  </html>
+`;
+
+describe('headless extraction', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('extractFromHtml', () => {
+    it('should pick the extractor from the URL and resolve links against it', async () => {
+      const content = await extractFromHtml(HN_THREAD, 'https://news.ycombinator.com/item?id=100');
+
+      expect(content.pageURL).toBe('https://news.ycombinator.com/item?id=100');
+      expect(content.title).toBe('A saved HN thread');
+      expect(content.items).toHaveLength(2);
+      expect(content.items[0].textContent).toBe('Saved Story');
+      expect(content.items[0].URL).toBe('https://news.ycombinator.com/item?id=100');
+      expect(content.items[0].metadata!.authorUrl).toBe('https://news.ycombinator.com/user?id=op');
+      expect(content.items[1].URL).toBe('https://news.ycombinator.com/item?id=101');
+      expect(content.items[1].parentId).toBe(content.items[0].id);
+    });
+
+    it('should use the parser from the options', async () => {
+      const window = new Window();
+      const parser = new window.DOMParser();
+      const parseSpy = vi.spyOn(parser, 'parseFromString');
+
+      const content = await extractFromHtml(HN_THREAD, 'https://news.ycombinator.com/item?id=100', {
+        parser: parser as unknown as DOMParser
+      });
+
+      expect(parseSpy).toHaveBeenCalledWith(HN_THREAD, 'text/html');
+      expect(content.items).toHaveLength(2);
+    });
+
+    it('should throw when no DOMParser is available', async () => {
+      vi.stubGlobal('DOMParser', undefined);
+
+      await expect(extractFromHtml(HN_THREAD, 'https://news.ycombinator.com/item?id=100'))
+        .rejects.toThrow('extractFromHtml needs a DOMParser');
+    });
+
+    it('should pass options through to the extractor', async () => {
+      const content = await extractFromHtml(HN_THREAD, 'https://news.ycombinator.com/item?id=100', { includeHtml: true });
+
+      expect(content.items[1].htmlContent).toContain('A comment from the saved page');
+    });
+  });
+
+  it('should export a parsed page to Markdown without a global DOMParser', async () => {
+    const parser = new new Window().DOMParser() as unknown as DOMParser;
+    vi.stubGlobal('DOMParser', undefined);
+
+    const content = await extractFromHtml(`
+      <html>
+        <head><title>Ask HN: A text post</title></head>
+        <body>
+          <table class="fatitem">
+            <tr class="athing submission" id="200">
+              <td class="title"><span class="titleline"><a href="item?id=200">Ask HN: A text post</a></span></td>
+            </tr>
+            <tr>
+              <td class="subtext">
+                <a href="user?id=op" class="hnuser">op</a>
+                <span class="age" title="2023-08-02T08:00:00 1690963200"><a href="item?id=200">2 hours ago</a></span>
+              </td>
+            </tr>
+            <tr><td colspan="2"></td><td><div class="toptext">Text post with a <a href="https://example.com/">link</a> and <i>emphasis</i><p>second para</p><pre><code>code()</code></pre></div></td></tr>
+          </table>
+        </body>
+      </html>
+    `, 'https://news.ycombinator.com/item?id=200', { parser, includeHtml: true });
+
+    expect(toMarkdown(content, { includeTitle: false })).toBe([
+      '**[op](https://news.ycombinator.com/user?id=op)** · 2023-08-02 08:00 UTC · [link](https://news.ycombinator.com/item?id=200)',
+      '',
+      'Text post with a [link](https://example.com/) and *emphasis*',
+      '',
+      'second para',
+      '',
+      '```',
+      'code()',
+      '```',
+      ''
+    ].join('\n'));
+  });
+
+  describe('extractFrom', () => {
+    it('should extract from a document of another window', async () => {
+      const window = new Window({ url: 'https://news.ycombinator.com/item?id=100' });
+      window.document.write(HN_THREAD);
+
+      const content = await extractFrom(window.document as unknown as Document, 'https://news.ycombinator.com/item?id=100');
+
+      expect(content.items.map(item => item.textContent)).toEqual([
+        'Saved Story',
+        'A comment from the saved page, long enough.'
+      ]);
+    });
+
+    it('should let registry predicates inspect the given document', async () => {
+      const doc = new DOMParser().parseFromString(HN_THREAD, 'text/html');
+      const registry = new ExtractorRegistry().register({
+        name: 'hn-mirror',
+        create: () => new HackerNewsExtractor(false),
+        test: (_url, candidate) => candidate.querySelector('.comment-tree') !== null
+      });
+
+      const content = await extractFrom(doc, 'https://hn-mirror.example/item?id=100', { registry });
+
+      expect(content.items).toHaveLength(2);
+      expect(content.items[1].URL).toBe('https://hn-mirror.example/item?id=101');
+    });
+  });
+
+  describe('BaseExtractor.extractFrom', () => {
+    it('should go back to the live page after an explicit extraction', async () => {
+      Object.defineProperty(window, 'location', {
+        value: { href: 'https://news.ycombinator.com/item?id=1' },
+        writable: true
+      });
+      document.body.innerHTML = '';
+      const extractor = new HackerNewsExtractor(false);
+      const doc = new DOMParser().parseFromString(HN_THREAD, 'text/html');
+
+      const saved = await extractor.extractFrom(doc, 'https://news.ycombinator.com/item?id=100');
+      const live = await extractor.extract();
+
+      expect(saved.items).toHaveLength(2);
+      expect(live.pageURL).toBe('https://news.ycombinator.com/item?id=1');
+      expect(live.items).toHaveLength(0);
+    });
+  });
+});
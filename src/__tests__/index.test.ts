@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { ContentScraper } from '../index';
-import { ScraperOptions, Content } from '../types';
+import { ScraperOptions, Content, ContentItem } from '../types';
+import { ExtractorRegistry } from '../registry';
+import { BaseExtractor } from '../extractors/base';
 
 // Mock window.location
 Object.defineProperty(window, 'location', {
@@ -102,6 +104,42 @@ describe('ContentScraper', () => {
       const scraper = new ContentScraper();
       expect(scraper).toBeInstanceOf(ContentScraper);
     });
+
+    it('should use the extractor resolved by a custom registry', async () => {
+      window.location.href = 'https://forum.custom.dev/thread/1';
+      document.body.innerHTML = '<div class="post">Custom forum post</div>';
+
+      class CustomExtractor extends BaseExtractor {
+        public async extract(): Promise<Content> {
+          const element = document.querySelector('.post') as HTMLElement;
+          return {
+            pageURL: window.location.href,
+            title: 'Custom Forum',
+            items: [{ id: 'custom-1', element, textContent: element.textContent!, type: 'post', selected: false }]
+          };
+        }
+      }
+
+      const registry = new ExtractorRegistry().register({
+        name: 'custom-forum',
+        create: (options) => new CustomExtractor(options.includeHtml || false),
+        hostnames: ['custom.dev']
+      });
+
+      const scraper = new ContentScraper({ registry });
+      await scraper.run();
+
+      const content = scraper.getContent();
+      expect(content!.title).toBe('Custom Forum');
+      expect(content!.items[0].id).toBe('custom-1');
+    });
+
+    it('should throw when the registry has no matching extractor', () => {
+      window.location.href = 'https://unknown-site.com';
+
+      expect(() => new ContentScraper({ registry: new ExtractorRegistry() }))
+        .toThrow('No extractor registered for https://unknown-site.com');
+    });
   });
 
   describe('run method', () => {
@@ -169,6 +207,40 @@ describe('ContentScraper', () => {
       expect(checkboxes).toHaveLength(0);
     });
 
+    it('should only display checkboxes for items on the live page when following pagination', async () => {
+      window.location.href = 'https://news.ycombinator.com/item?id=1';
+      document.body.innerHTML = `
+        <table class="comment-tree">
+          <tr class="athing comtr" id="2">
+            <td>
+              <div class="comhead"><span class="age"><a href="item?id=2">1 hour ago</a></span></div>
+              <div class="comment"><div class="commtext c00">A comment on the first page.</div></div>
+            </td>
+          </tr>
+        </table>
+        <a href="item?id=1&amp;p=2" class="morelink" rel="next">More</a>
+      `;
+      const pageFetcher = vi.fn(async () => `
+        <table class="comment-tree">
+          <tr class="athing comtr" id="3">
+            <td>
+              <div class="comhead"><span class="age"><a href="item?id=3">1 hour ago</a></span></div>
+              <div class="comment"><div class="commtext c00">A comment on the second page.</div></div>
+            </td>
+          </tr>
+        </table>
+      `);
+
+      const scraper = new ContentScraper({ showCheckboxes: true, followPagination: true, pageFetcher });
+      await scraper.run();
+
+      expect(pageFetcher).toHaveBeenCalledTimes(1);
+      expect(scraper.getContent()!.items.map(item => item.id)).toEqual(['hn:2', 'hn:3']);
+      expect(document.querySelectorAll('[data-threads-harvester-checkbox]')).toHaveLength(1);
+
+      scraper.destroy();
+    });
+
     it('should handle extraction errors gracefully', async () => {
       // Mock console.error to avoid log spam in tests
       const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
@@ -185,6 +257,42 @@ describe('ContentScraper', () => {
       consoleSpy.mockRestore();
     });
 
+    it('should expand collapsed content before extracting when expand is on', async () => {
+      window.location.href = 'https://news.ycombinator.com/item?id=1';
+      document.body.innerHTML = `
+        <table class="comment-tree">
+          <tr class="athing comtr coll" id="2">
+            <td>
+              <div class="comhead"><a class="togg" href="javascript:void(0)">[+1]</a></div>
+              <div class="comment"><div class="commtext" style="display: none;">A comment inside a collapsed thread.</div></div>
+            </td>
+          </tr>
+        </table>
+      `;
+      document.querySelector('a.togg')!.addEventListener('click', event => {
+        event.preventDefault();
+        document.querySelector('tr.athing')!.classList.remove('coll');
+        (document.querySelector('.commtext') as HTMLElement).style.display = '';
+      });
+      window.getComputedStyle = vi.fn((element: Element) => ({
+        display: (element as HTMLElement).style.display || 'block',
+        visibility: 'visible'
+      } as CSSStyleDeclaration));
+
+      const collapsed = new ContentScraper();
+      await collapsed.run();
+      expect(collapsed.getContent()!.items).toHaveLength(0);
+      expect(collapsed.getContent()!.expanded).toBeUndefined();
+
+      const scraper = new ContentScraper({ expand: true, expandSettleTime: 1 });
+      await scraper.run();
+
+      const content = scraper.getContent();
+      expect(content!.expanded).toBe(1);
+      expect(content!.items).toHaveLength(1);
+      expect(content!.items[0].textContent).toBe('A comment inside a collapsed thread.');
+    });
+
     it('should handle empty content gracefully', async () => {
       // No content in the DOM
       const scraper = new ContentScraper();
@@ -424,6 +532,137 @@ describe('ContentScraper', () => {
     });
   });
 
+  describe('watch mode', () => {
+    const longText = (label: string) =>
+      `${label} article content that is long enough to pass the minimum content length requirements for extraction.`;
+
+    const waitForItemsAdded = (scraper: ContentScraper) =>
+      new Promise<ContentItem[]>(resolve => scraper.on('itemsAdded', resolve));
+
+    it('should extract items added to the page and emit itemsAdded', async () => {
+      document.body.innerHTML = `<article><p>${longText('First')}</p></article>`;
+
+      const scraper = new ContentScraper({ watch: true, watchDebounce: 10 });
+      await scraper.run();
+      expect(scraper.isWatching()).toBe(true);
+
+      const itemsAdded = waitForItemsAdded(scraper);
+      const article = document.createElement('article');
+      article.innerHTML = `<p>${longText('Second')}</p>`;
+      document.body.appendChild(article);
+
+      const added = await itemsAdded;
+      expect(added).toHaveLength(1);
+      expect(added[0].element).toBe(article);
+
+      const content = scraper.getContent();
+      expect(content!.items.map(item => item.textContent)).toEqual([longText('First'), longText('Second')]);
+
+      scraper.destroy();
+    });
+
+    it('should not duplicate items and keep their selection state', async () => {
+      document.body.innerHTML = `<article><p>${longText('First')}</p></article>`;
+
+      const scraper = new ContentScraper({ showCheckboxes: true, watchDebounce: 10 });
+      await scraper.run();
+      scraper.startWatching();
+
+      (document.querySelector('div[style*="position: absolute"]') as HTMLElement).click();
+
+      const itemsAdded = waitForItemsAdded(scraper);
+      const article = document.createElement('article');
+      article.innerHTML = `<p>${longText('Second')}</p>`;
+      document.body.appendChild(article);
+      await itemsAdded;
+
+      const content = scraper.getContent();
+      expect(content!.items).toHaveLength(2);
+      expect(content!.items[0].selected).toBe(true);
+      expect(content!.items[1].selected).toBe(false);
+      // The new item gets its own checkbox next to the existing one
+      expect(document.querySelectorAll('div[style*="position: absolute"]')).toHaveLength(2);
+
+      scraper.destroy();
+    });
+
+    it('should keep items that were removed from the page', async () => {
+      document.body.innerHTML = `<article id="first"><p>${longText('First')}</p></article>`;
+
+      const scraper = new ContentScraper({ watchDebounce: 10 });
+      await scraper.run();
+      scraper.startWatching();
+
+      const itemsAdded = waitForItemsAdded(scraper);
+      document.getElementById('first')!.remove();
+      const article = document.createElement('article');
+      article.innerHTML = `<p>${longText('Second')}</p>`;
+      document.body.appendChild(article);
+      await itemsAdded;
+
+      expect(scraper.getContent()!.items).toHaveLength(2);
+
+      scraper.destroy();
+    });
+
+    it('should ignore mutations caused by its own checkboxes', async () => {
+      document.body.innerHTML = `<article><p>${longText('First')}</p></article>`;
+
+      const extractSpy = vi.fn();
+      class CountingExtractor extends BaseExtractor {
+        public async extract(): Promise<Content> {
+          extractSpy();
+          const element = document.querySelector('article') as HTMLElement;
+          return {
+            pageURL: window.location.href,
+            title: 'Test Page',
+            items: [{ id: 'first', element, textContent: element.textContent!, type: 'post', selected: false }]
+          };
+        }
+      }
+      const registry = new ExtractorRegistry().register({
+        name: 'counting',
+        create: (options) => new CountingExtractor(options.includeHtml || false),
+        test: () => true
+      });
+
+      const scraper = new ContentScraper({ registry, watchDebounce: 10 });
+      await scraper.run();
+      extractSpy.mockClear();
+      scraper.startWatching();
+
+      scraper.displayCheckboxes();
+      (document.querySelector('div[style*="position: absolute"]') as HTMLElement).click();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(extractSpy).not.toHaveBeenCalled();
+
+      scraper.destroy();
+    });
+
+    it('should stop observing after stopWatching', async () => {
+      document.body.innerHTML = `<article><p>${longText('First')}</p></article>`;
+
+      const scraper = new ContentScraper({ watchDebounce: 10 });
+      await scraper.run();
+      const itemsAddedSpy = vi.fn();
+      scraper.on('itemsAdded', itemsAddedSpy);
+      scraper.startWatching();
+      scraper.stopWatching();
+
+      const article = document.createElement('article');
+      article.innerHTML = `<p>${longText('Second')}</p>`;
+      document.body.appendChild(article);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(scraper.isWatching()).toBe(false);
+      expect(itemsAddedSpy).not.toHaveBeenCalled();
+      expect(scraper.getContent()!.items).toHaveLength(1);
+
+      scraper.destroy();
+    });
+  });
+
   describe('destroy method', () => {
     it('should clean up UI and reset state', async () => {
       document.body.innerHTML = `
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExtractorRegistry, createDefaultRegistry, extractorRegistry } from '../registry';
+import { BaseExtractor } from '../extractors/base';
+import { GenericExtractor } from '../extractors/generic';
+import { HackerNewsExtractor } from '../extractors/hackernews';
+import { RedditExtractor } from '../extractors/reddit';
+import { OldRedditExtractor } from '../extractors/oldreddit';
+import { LobstersExtractor } from '../extractors/lobsters';
+import { MastodonExtractor } from '../extractors/mastodon';
+import { BlueskyExtractor } from '../extractors/bluesky';
+import { DiscourseExtractor } from '../extractors/discourse';
+import { GitHubExtractor } from '../extractors/github';
+import { TwitterExtractor } from '../extractors/twitter';
+import { Content } from '../types';
+
+class CustomExtractor extends BaseExtractor {
+  public async extract(): Promise<Content> {
+    return { pageURL: 'https://custom.dev', title: 'Custom', items: [] };
+  }
+}
+
+describe('ExtractorRegistry', () => {
+  let registry: ExtractorRegistry;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    registry = new ExtractorRegistry();
+  });
+
+  describe('register', () => {
+    it('should match registrations by hostname and subdomains', () => {
+      registry.register({ name: 'custom', create: () => new CustomExtractor(false), hostnames: ['custom.dev'] });
+
+      expect(registry.resolve('https://custom.dev/thread/1')?.name).toBe('custom');
+      expect(registry.resolve('https://forum.custom.dev/thread/1')?.name).toBe('custom');
+      expect(registry.resolve('https://notcustom.dev/thread/1')).toBeNull();
+    });
+
+    it('should match registrations by URL pattern', () => {
+      registry.register({ name: 'custom', create: () => new CustomExtractor(false), patterns: [/\/discussions\/\d+/] });
+
+      expect(registry.resolve('https://example.com/discussions/42')?.name).toBe('custom');
+      expect(registry.resolve('https://example.com/blog/42')).toBeNull();
+    });
+
+    it('should match registrations by predicate with access to the document', () => {
+      registry.register({
+        name: 'custom',
+        create: () => new CustomExtractor(false),
+        test: (_url, doc) => doc.querySelector('#custom-forum') !== null
+      });
+
+      expect(registry.resolve('https://example.com/')).toBeNull();
+
+      document.body.innerHTML = '<div id="custom-forum"></div>';
+      expect(registry.resolve('https://example.com/')?.name).toBe('custom');
+    });
+
+    it('should reject registrations without any matcher', () => {
+      expect(() => {
+        registry.register({ name: 'custom', create: () => new CustomExtractor(false) });
+      }).toThrow('Extractor "custom" needs at least one hostname, pattern or test');
+    });
+
+    it('should replace registrations with the same name', () => {
+      registry.register({ name: 'custom', create: () => new CustomExtractor(false), hostnames: ['a.dev'] });
+      registry.register({ name: 'custom', create: () => new CustomExtractor(false), hostnames: ['b.dev'] });
+
+      expect(registry.list()).toHaveLength(1);
+      expect(registry.resolve('https://a.dev/')).toBeNull();
+      expect(registry.resolve('https://b.dev/')?.name).toBe('custom');
+    });
+  });
+
+  describe('unregister', () => {
+    it('should remove registrations by name', () => {
+      registry.register({ name: 'custom', create: () => new CustomExtractor(false), hostnames: ['custom.dev'] });
+
+      expect(registry.unregister('custom')).toBe(true);
+      expect(registry.has('custom')).toBe(false);
+      expect(registry.resolve('https://custom.dev/')).toBeNull();
+      expect(registry.unregister('custom')).toBe(false);
+    });
+  });
+
+  describe('priority', () => {
+    it('should consult higher priorities first', () => {
+      registry.register({ name: 'low', create: () => new CustomExtractor(false), hostnames: ['custom.dev'], priority: 1 });
+      registry.register({ name: 'high', create: () => new CustomExtractor(false), hostnames: ['custom.dev'], priority: 10 });
+      registry.register({ name: 'default', create: () => new CustomExtractor(false), hostnames: ['custom.dev'] });
+
+      expect(registry.resolve('https://custom.dev/')?.name).toBe('high');
+      expect(registry.list().map(registration => registration.name)).toEqual(['high', 'low', 'default']);
+    });
+
+    it('should prefer the most recent registration when priorities are equal', () => {
+      registry.register({ name: 'first', create: () => new CustomExtractor(false), hostnames: ['custom.dev'] });
+      registry.register({ name: 'second', create: () => new CustomExtractor(false), hostnames: ['custom.dev'] });
+
+      expect(registry.resolve('https://custom.dev/')?.name).toBe('second');
+    });
+  });
+
+  describe('createExtractor', () => {
+    it('should pass scraper options to the factory', () => {
+      let receivedIncludeHtml: boolean | undefined;
+      registry.register({
+        name: 'custom',
+        create: (options) => {
+          receivedIncludeHtml = options.includeHtml;
+          return new CustomExtractor(options.includeHtml || false);
+        },
+        hostnames: ['custom.dev']
+      });
+
+      const extractor = registry.createExtractor('https://custom.dev/', { includeHtml: true });
+
+      expect(extractor).toBeInstanceOf(CustomExtractor);
+      expect(receivedIncludeHtml).toBe(true);
+    });
+
+    it('should throw when no registration matches', () => {
+      expect(() => registry.createExtractor('https://custom.dev/')).toThrow('No extractor registered for https://custom.dev/');
+    });
+
+    it('should tolerate URLs that cannot be parsed', () => {
+      registry.register({ name: 'custom', create: () => new CustomExtractor(false), hostnames: ['custom.dev'] });
+
+      expect(registry.resolve('not a url')).toBeNull();
+    });
+  });
+
+  describe('createDefaultRegistry', () => {
+    it('should register the built-in extractors', () => {
+      const defaults = createDefaultRegistry();
+
+      expect(defaults.createExtractor('https://news.ycombinator.com/item?id=1')).toBeInstanceOf(HackerNewsExtractor);
+      expect(defaults.createExtractor('https://www.reddit.com/r/programming')).toBeInstanceOf(RedditExtractor);
+      expect(defaults.createExtractor('https://old.reddit.com/r/programming')).toBeInstanceOf(OldRedditExtractor);
+      expect(defaults.createExtractor('https://twitter.com/user/status/1')).toBeInstanceOf(TwitterExtractor);
+      expect(defaults.createExtractor('https://x.com/user/status/1')).toBeInstanceOf(TwitterExtractor);
+      expect(defaults.createExtractor('https://lobste.rs/s/abc123/a_story')).toBeInstanceOf(LobstersExtractor);
+      expect(defaults.createExtractor('https://bsky.app/profile/alice.bsky.social/post/3k')).toBeInstanceOf(BlueskyExtractor);
+      expect(defaults.createExtractor('https://github.com/owner/repo/issues/1')).toBeInstanceOf(GitHubExtractor);
+      expect(defaults.createExtractor('https://github.com/owner/repo/pull/2')).toBeInstanceOf(GitHubExtractor);
+      expect(defaults.createExtractor('https://github.com/owner/repo/discussions/3')).toBeInstanceOf(GitHubExtractor);
+      expect(defaults.createExtractor('https://example.com/')).toBeInstanceOf(GenericExtractor);
+    });
+
+    it('should not mistake similar hostnames for built-in sites', () => {
+      const defaults = createDefaultRegistry();
+
+      expect(defaults.createExtractor('https://box.com/x.com')).toBeInstanceOf(GenericExtractor);
+      expect(defaults.createExtractor('https://notreddit.com/')).toBeInstanceOf(GenericExtractor);
+      expect(defaults.createExtractor('https://github.com/owner/repo/blob/main/issues/1')).toBeInstanceOf(GenericExtractor);
+    });
+
+    it('should detect Mastodon instances by their markup', () => {
+      const defaults = createDefaultRegistry();
+
+      document.body.innerHTML = '<div id="mastodon" data-props="{&quot;locale&quot;:&quot;en&quot;}"></div>';
+      expect(defaults.createExtractor('https://fosstodon.org/@alice/1')).toBeInstanceOf(MastodonExtractor);
+
+      document.body.innerHTML = '<div class="status" data-id="1"><div class="status__content">Toot</div></div>';
+      expect(defaults.createExtractor('https://social.example/@alice/1')).toBeInstanceOf(MastodonExtractor);
+
+      document.body.innerHTML = '<div id="mastodon">A blog post about Mastodon</div>';
+      expect(defaults.createExtractor('https://blog.example/mastodon')).toBeInstanceOf(GenericExtractor);
+    });
+
+    it('should detect Discourse forums by their markup', () => {
+      const defaults = createDefaultRegistry();
+
+      document.head.innerHTML = '<meta name="generator" content="Discourse 3.2.0 - https://github.com/discourse/discourse version abc">';
+      expect(defaults.createExtractor('https://forum.example.org/t/a-topic/42')).toBeInstanceOf(DiscourseExtractor);
+
+      document.head.innerHTML = '';
+      document.body.innerHTML = '<div class="topic-post"><article id="post_1" data-post-id="1"></article></div>';
+      expect(defaults.createExtractor('https://meta.example.org/t/a-topic/42')).toBeInstanceOf(DiscourseExtractor);
+    });
+
+    it('should let custom registrations override built-in ones', () => {
+      const defaults = createDefaultRegistry();
+      defaults.register({ name: 'custom-hn', create: () => new CustomExtractor(false), hostnames: ['news.ycombinator.com'] });
+
+      expect(defaults.createExtractor('https://news.ycombinator.com/item?id=1')).toBeInstanceOf(CustomExtractor);
+    });
+
+    it('should back the shared extractorRegistry', () => {
+      expect(extractorRegistry.list().map(registration => registration.name)).toEqual(
+        expect.arrayContaining(['hackernews', 'reddit', 'old-reddit', 'twitter', 'lobsters', 'mastodon', 'bluesky', 'discourse', 'github', 'generic'])
+      );
+    });
+  });
+});
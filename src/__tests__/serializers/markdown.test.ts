@@ -0,0 +1,224 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Window } from 'happy-dom';
+import { toMarkdown, htmlToMarkdown } from '../../serializers/markdown';
+import { Content, ContentItem } from '../../types';
+
+function createItem(overrides: Partial<ContentItem> & { id: string }): ContentItem {
+  return {
+    element: document.createElement('div'),
+    type: 'comment',
+    selected: false,
+    ...overrides
+  };
+}
+
+describe('htmlToMarkdown', () => {
+  it('should convert paragraphs and inline formatting', () => {
+    const markdown = htmlToMarkdown('<p>Some <b>bold</b>, <i>italic</i> and <del>gone</del> text.</p><p>Second <code>a_b</code></p>');
+
+    expect(markdown).toBe('Some **bold**, *italic* and ~~gone~~ text.\n\nSecond `a_b`');
+  });
+
+  it('should convert links and resolve them against the base URL', () => {
+    const markdown = htmlToMarkdown(
+      'See <a href="item?id=1">this thread</a> and <a href="https://example.com/a b">https://example.com/a b</a>',
+      'https://news.ycombinator.com/item?id=0'
+    );
+
+    expect(markdown).toBe(
+      'See [this thread](https://news.ycombinator.com/item?id=1) and [https://example.com/a b](https://example.com/a%20b)'
+    );
+  });
+
+  it('should drop javascript links but keep their text', () => {
+    expect(htmlToMarkdown('<a href="javascript:void(0)">reply</a>')).toBe('reply');
+  });
+
+  it('should convert code blocks with a language and enough backticks', () => {
+    const markdown = htmlToMarkdown('<pre><code class="language-ts">const a = `x`;\nconst b = ```;\n</code></pre>');
+
+    expect(markdown).toBe('````ts\nconst a = `x`;\nconst b = ```;\n````');
+  });
+
+  it('should convert blockquotes', () => {
+    const markdown = htmlToMarkdown('<blockquote><p>Quoted</p><p>Twice</p></blockquote><p>Answer</p>');
+
+    expect(markdown).toBe('> Quoted\n>\n> Twice\n\nAnswer');
+  });
+
+  it('should convert nested and ordered lists', () => {
+    const markdown = htmlToMarkdown('<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul><ol start="3"><li>Three</li><li>Four</li></ol>');
+
+    expect(markdown).toBe('- One\n\n  - Nested\n- Two\n\n3. Three\n4. Four');
+  });
+
+  it('should convert headings, images, rules and line breaks', () => {
+    const markdown = htmlToMarkdown('<h2>Title</h2><p>Line one<br>Line two</p><hr><img src="/a.png" alt="An image">', 'https://example.com/');
+
+    expect(markdown).toBe('## Title\n\nLine one\\\nLine two\n\n---\n\n![An image](https://example.com/a.png)');
+  });
+
+  it('should escape Markdown syntax in text', () => {
+    expect(htmlToMarkdown('<p>2 * 3 = [six] and snake_case</p><p># not a heading</p><p>1. not a list</p>'))
+      .toBe('2 \\* 3 = \\[six\\] and snake\\_case\n\n\\# not a heading\n\n1\\. not a list');
+  });
+
+  it('should skip scripts, styles and buttons', () => {
+    expect(htmlToMarkdown('<p>Text<script>alert(1)</script><style>p{}</style><button>Reply</button></p>')).toBe('Text');
+  });
+
+  describe('without a global DOMParser', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should parse with the parser from the options', () => {
+      const parser = new new Window().DOMParser() as unknown as DOMParser;
+      vi.stubGlobal('DOMParser', undefined);
+
+      expect(htmlToMarkdown('<p>A <a href="/x">link</a> and <em>emphasis</em></p><pre><code>code()</code></pre>', 'https://example.com/', { parser }))
+        .toBe('A [link](https://example.com/x) and *emphasis*\n\n```\ncode()\n```');
+    });
+
+    it('should parse with the implementation of the given document', () => {
+      const doc = new Window().document as unknown as Document;
+      vi.stubGlobal('DOMParser', undefined);
+
+      expect(htmlToMarkdown('<p>First</p><p>Second <b>bold</b></p>', undefined, { document: doc }))
+        .toBe('First\n\nSecond **bold**');
+    });
+
+    it('should strip the tags when there is no way to parse', () => {
+      vi.stubGlobal('DOMParser', undefined);
+
+      expect(htmlToMarkdown('<p>First</p><p>Second <b>bold</b></p>')).toBe('First Second bold');
+    });
+  });
+});
+
+describe('toMarkdown', () => {
+  const content: Content = {
+    pageURL: 'https://news.ycombinator.com/item?id=1',
+    title: 'Show HN: Something',
+    items: [
+      createItem({
+        id: 'post',
+        type: 'post',
+        textContent: 'The submission text.',
+        URL: 'https://news.ycombinator.com/item?id=1',
+        depth: 0,
+        metadata: { author: 'op', authorUrl: 'https://news.ycombinator.com/user?id=op', createdAt: '2023-08-02T08:00:00.000Z' }
+      }),
+      createItem({
+        id: 'a',
+        parentId: 'post',
+        depth: 1,
+        htmlContent: '<p>First <i>reply</i></p><p>Second paragraph</p>',
+        metadata: { author: 'alice' },
+        selected: true
+      }),
+      createItem({ id: 'a1', parentId: 'a', depth: 2, textContent: 'Nested reply', selected: true }),
+      createItem({ id: 'b', parentId: 'post', depth: 1, textContent: '- looks like a list' })
+    ]
+  };
+
+  it('should render nested replies as nested blockquotes', () => {
+    expect(toMarkdown(content)).toBe([
+      '# [Show HN: Something](https://news.ycombinator.com/item?id=1)',
+      '',
+      '**[op](https://news.ycombinator.com/user?id=op)** · 2023-08-02 08:00 UTC · [link](https://news.ycombinator.com/item?id=1)',
+      '',
+      'The submission text.',
+      '',
+      '> **alice**',
+      '>',
+      '> First *reply*',
+      '>',
+      '> Second paragraph',
+      '',
+      '> > Nested reply',
+      '',
+      '> \\- looks like a list',
+      ''
+    ].join('\n'));
+  });
+
+  it('should render nested replies as indented lists', () => {
+    expect(toMarkdown(content, { nesting: 'list', includeTitle: false })).toBe([
+      '- **[op](https://news.ycombinator.com/user?id=op)** · 2023-08-02 08:00 UTC · [link](https://news.ycombinator.com/item?id=1)',
+      '',
+      '  The submission text.',
+      '',
+      '  - **alice**',
+      '',
+      '    First *reply*',
+      '',
+      '    Second paragraph',
+      '',
+      '    - Nested reply',
+      '',
+      '  - \\- looks like a list',
+      ''
+    ].join('\n'));
+  });
+
+  it('should only render selected items when requested', () => {
+    const markdown = toMarkdown(content, { selectedOnly: true, includeTitle: false });
+
+    expect(markdown).toBe('**alice**\n\nFirst *reply*\n\nSecond paragraph\n\n> Nested reply\n');
+  });
+
+  it('should render attachments after the item text', () => {
+    const markdown = toMarkdown({
+      pageURL: 'https://x.com/user/status/1',
+      title: 'Tweet',
+      items: [
+        createItem({
+          id: 'tweet',
+          type: 'post',
+          htmlContent: '<p>Look <img src="https://example.com/inline.png" alt="inline"></p>',
+          attachments: [
+            { kind: 'image', src: 'https://example.com/inline.png', alt: 'inline' },
+            { kind: 'image', src: 'https://example.com/a (1).png', alt: 'A [chart]' },
+            { kind: 'video', src: 'https://example.com/clip.mp4', poster: 'https://example.com/poster.jpg' },
+            { kind: 'video', src: 'https://example.com/other.mp4', alt: 'Demo' },
+            { kind: 'link', src: 'https://t.co/abc', alt: 'example.com Write-up' }
+          ]
+        })
+      ]
+    }, { includeTitle: false });
+
+    expect(markdown).toBe([
+      'Look ![inline](https://example.com/inline.png)',
+      '',
+      '![A \\[chart\\]](https://example.com/a%20%281%29.png)',
+      '',
+      '[![Video](https://example.com/poster.jpg)](https://example.com/clip.mp4)',
+      '',
+      '[Demo](https://example.com/other.mp4)',
+      '',
+      '[example.com Write-up](https://t.co/abc)',
+      ''
+    ].join('\n'));
+  });
+
+  it('should convert HTML content with the document of the item without a global DOMParser', () => {
+    const element = new Window().document.createElement('div') as unknown as HTMLElement;
+    vi.stubGlobal('DOMParser', undefined);
+
+    try {
+      expect(toMarkdown({
+        pageURL: 'https://example.com/',
+        title: 'Saved page',
+        items: [createItem({ id: 'a', element, htmlContent: '<p>First <i>reply</i></p><p>Second paragraph</p>' })]
+      }, { includeTitle: false })).toBe('First *reply*\n\nSecond paragraph\n');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should render only the title for content without items', () => {
+    expect(toMarkdown({ pageURL: 'https://example.com/', title: 'Empty', items: [] }))
+      .toBe('# [Empty](https://example.com/)\n');
+  });
+});
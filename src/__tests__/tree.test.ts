@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { buildContentTree, filterByDepth } from '../tree';
+import { Content, ContentItem } from '../types';
+
+function createItem(id: string, parentId?: string): ContentItem {
+  return {
+    id,
+    element: document.createElement('div'),
+    textContent: `Item ${id}`,
+    type: parentId ? 'comment' : 'post',
+    selected: false,
+    parentId
+  };
+}
+
+describe('buildContentTree', () => {
+  it('should return an empty tree for content without items', () => {
+    const content: Content = { pageURL: 'https://example.com', title: 'Empty', items: [] };
+
+    expect(buildContentTree(content)).toEqual([]);
+  });
+
+  it('should nest items under their parents', () => {
+    const content: Content = {
+      pageURL: 'https://example.com',
+      title: 'Thread',
+      items: [
+        createItem('post'),
+        createItem('a', 'post'),
+        createItem('a1', 'a'),
+        createItem('b', 'post'),
+        createItem('a2', 'a')
+      ]
+    };
+
+    const tree = buildContentTree(content);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].item.id).toBe('post');
+    expect(tree[0].children.map(node => node.item.id)).toEqual(['a', 'b']);
+    expect(tree[0].children[0].children.map(node => node.item.id)).toEqual(['a1', 'a2']);
+    expect(tree[0].children[1].children).toEqual([]);
+  });
+
+  it('should treat items with unknown parents as roots', () => {
+    const content: Content = {
+      pageURL: 'https://example.com',
+      title: 'Thread',
+      items: [createItem('a', 'missing'), createItem('b')]
+    };
+
+    const tree = buildContentTree(content);
+
+    expect(tree.map(node => node.item.id)).toEqual(['a', 'b']);
+  });
+
+  it('should keep the original item objects in the nodes', () => {
+    const content: Content = {
+      pageURL: 'https://example.com',
+      title: 'Thread',
+      items: [createItem('post'), createItem('a', 'post')]
+    };
+
+    const tree = buildContentTree(content);
+
+    expect(tree[0].item).toBe(content.items[0]);
+    expect(tree[0].children[0].item).toBe(content.items[1]);
+  });
+});
+
+describe('filterByDepth', () => {
+  const content: Content = {
+    pageURL: 'https://example.com',
+    title: 'Thread',
+    items: [
+      { ...createItem('post'), depth: 0, childIds: ['a', 'b'] },
+      { ...createItem('a', 'post'), depth: 1, childIds: ['a1'] },
+      { ...createItem('a1', 'a'), depth: 2, childIds: [] },
+      { ...createItem('b', 'post'), depth: 1, childIds: [] },
+      createItem('unknown')
+    ]
+  };
+
+  it('should keep items up to maxDepth and drop child ids of removed items', () => {
+    const filtered = filterByDepth(content, { maxDepth: 1 });
+
+    expect(filtered.items.map(item => item.id)).toEqual(['post', 'a', 'b', 'unknown']);
+    expect(filtered.items[1].childIds).toEqual([]);
+    expect(filtered.items[0].childIds).toEqual(['a', 'b']);
+  });
+
+  it('should keep items from minDepth on, turning them into tree roots', () => {
+    const filtered = filterByDepth(content, { minDepth: 1 });
+
+    expect(filtered.items.map(item => item.id)).toEqual(['a', 'a1', 'b', 'unknown']);
+    expect(buildContentTree(filtered).map(node => node.item.id)).toEqual(['a', 'b', 'unknown']);
+  });
+
+  it('should not modify the original content', () => {
+    filterByDepth(content, { maxDepth: 0 });
+
+    expect(content.items).toHaveLength(5);
+    expect(content.items[0].childIds).toEqual(['a', 'b']);
+  });
+});
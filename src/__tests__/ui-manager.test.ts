@@ -163,6 +163,52 @@ describe('UIManager', () => {
     });
   });
 
+  describe('addCheckboxes', () => {
+    it('should add checkboxes without removing existing ones', () => {
+      uiManager.displayCheckboxes([mockItems[0]]);
+      uiManager.addCheckboxes([mockItems[1]]);
+
+      expect(document.querySelectorAll('div[style*="position: absolute"]')).toHaveLength(2);
+      expect(uiManager.hasCheckboxes()).toBe(true);
+    });
+
+    it('should not add a second checkbox for the same element', () => {
+      uiManager.displayCheckboxes(mockItems);
+      uiManager.addCheckboxes([mockItems[0]]);
+
+      expect(document.querySelectorAll('div[style*="position: absolute"]')).toHaveLength(2);
+    });
+
+    it('should include added items in selection events', () => {
+      const selectionSpy = vi.fn();
+      uiManager.on('selectionChanged', selectionSpy);
+      uiManager.displayCheckboxes([mockItems[0]]);
+      uiManager.addCheckboxes([mockItems[1]]);
+
+      const checkboxes = document.querySelectorAll('div[style*="position: absolute"]') as NodeListOf<HTMLElement>;
+      checkboxes[0].click();
+      checkboxes[1].click();
+
+      expect(selectionSpy).toHaveBeenLastCalledWith(mockItems);
+    });
+  });
+
+  describe('isCheckboxElement', () => {
+    it('should recognize checkboxes and their content, even after removal', () => {
+      uiManager.displayCheckboxes(mockItems);
+      const checkbox = document.querySelector('div[style*="position: absolute"]') as HTMLElement;
+      checkbox.click();
+
+      expect(uiManager.isCheckboxElement(checkbox)).toBe(true);
+      expect(uiManager.isCheckboxElement(checkbox.firstChild!)).toBe(true);
+      expect(uiManager.isCheckboxElement(mockItems[0].element)).toBe(false);
+
+      uiManager.destroy();
+      expect(uiManager.isCheckboxElement(checkbox)).toBe(true);
+      expect(uiManager.hasCheckboxes()).toBe(false);
+    });
+  });
+
   describe('checkbox interactions', () => {
     it('should toggle item selection when checkbox is clicked', () => {
       uiManager.displayCheckboxes(mockItems);
@@ -529,13 +575,15 @@ describe('UIManager', () => {
     it('should prevent checkboxes from being positioned off-screen on small screens', () => {
       // Create mock element that would cause off-screen positioning in original implementation
       const mockElement = {
+        isConnected: true,
+        ownerDocument: document,
         getBoundingClientRect: () => ({
           top: 100,
           left: 10, // Very close to left edge - would cause negative positioning with original logic
           width: 300,
           height: 50
         })
-      } as HTMLElement;
+      } as unknown as HTMLElement;
 
       const smallScreenItem: ContentItem = {
         id: 'small-screen-test',
@@ -6,7 +6,35 @@ export const SITE_SELECTORS = {
   REDDIT: {
     POST: '[slot="text-body"]',
     COMMENTS: '[slot="comment"]',
-    COMMENT_ID: '[slot="commentMeta"] a:has(faceplate-timeago)' // the href
+    COMMENT_HOST: 'shreddit-comment',
+    COMMENT_ID: '[slot="commentMeta"] a:has(faceplate-timeago)', // the href
+    COMMENT_META: '[slot="commentMeta"]',
+    POST_HOST: 'shreddit-post',
+    POST_TITLE: '[slot="title"]',
+    POST_FLAIR: 'shreddit-post-flair',
+    POST_MEDIA: '[slot="post-media-container"]',
+    POST_VIDEO: 'shreddit-player, shreddit-player-2', // the src
+    POST_THUMBNAIL: '[slot="thumbnail"] img',
+    POLL_OPTION: 'shreddit-poll li',
+    TIMESTAMP: 'faceplate-timeago[ts]',
+    MORE_REPLIES: 'faceplate-partial[loading="action"] > button' // loads more replies in place
+  },
+  OLD_REDDIT: {
+    POST: '#siteTable .thing.link',
+    COMMENTS: '.commentarea .thing.comment',
+    COMMENT_THING: '.thing.comment',
+    ENTRY: '.entry',
+    VOTE_COLUMN: '.midcol',
+    TITLE_LINK: 'a.title',
+    BODY: '.usertext-body',
+    TAGLINE: '.tagline',
+    AUTHOR: '.author',
+    SCORE: '.score.unvoted', // exact count in the title attribute
+    TIMESTAMP: 'time[datetime]',
+    PERMALINK: 'a.bylink', // the href
+    CHILD: '.child',
+    MORE_COMMENTS: '.morecomments > a',
+    COLLAPSED_TOGGLE: '.thing.comment.collapsed > .entry a.expand'
   },
   HACKER_NEWS: {
     POST: '.toptext',
@@ -14,14 +42,118 @@ export const SITE_SELECTORS = {
     COMMENTS: '.commtext',
     COMMENT_ID: '.comhead span.age > a', // the href 
     COMMENT_TREE: 'tr.athing.comtr',
+    COMMENT_INDENT: 'td.ind',
     STORY_ITEM: '.athing',
-    TITLE_LINK: '.titleline > a'
+    SUBMISSION: '.athing.submission',
+    FAT_ITEM: '.fatitem', // the story table of discussion pages
+    LISTING_STORY: 'tr.athing.submission',
+    SITE_DOMAIN: '.sitestr',
+    TITLE_LINK: '.titleline > a',
+    SUBTEXT: '.subtext',
+    AUTHOR: '.hnuser',
+    AGE: 'span.age',
+    SCORE: '.score',
+    COMMENT_HEAD: '.comhead',
+    COLLAPSED_TOGGLE: 'tr.athing.comtr.coll a.togg',
+    MORE_LINK: 'a.morelink' // the href of the next page
+  },
+  LOBSTERS: {
+    STORY: '.story[data-shortid]',
+    TITLE_LINK: '.link > a',
+    TAG: '.tags a.tag',
+    DOMAIN: 'a.domain',
+    STORY_TEXT: '.story_text',
+    BYLINE: '.byline',
+    USER_LINK: 'a[href*="/~"]', // the avatar links to the profile too, pick the one with text
+    SCORE: '.voters .score',
+    TIMESTAMP: 'time[datetime]',
+    COMMENTS_LINK: '.comments_label a',
+    COMMENT: '.comment[data-shortid]',
+    COMMENT_TEXT: '.comment_text',
+    COMMENT_TREE: '.comments_subtree',
+    COMMENT_PERMALINK: 'a[href*="/c/"], a[href*="#c_"]' // the href
+  },
+  MASTODON: {
+    PAGE_MARKER: '#mastodon[data-props], .detailed-status .status__content, .status[data-id] .status__content', // web app root or status markup
+    STATUS: '.status[data-id], .detailed-status',
+    FOCAL_STATUS: '.detailed-status',
+    CONTENT_TEXT: '.status__content__text', // without the content warning and its button
+    CONTENT: '.status__content',
+    CONTENT_WARNING: '.status__content .p-summary, .content-warning > p',
+    SPOILER_BUTTON: '.status__content__spoiler-link',
+    VISIBLE_CONTENT: '.status__content__text--visible',
+    ACCOUNT: '.display-name__account', // "@user@instance", "@user" for local accounts
+    ACCOUNT_LINK: '.status__display-name, .detailed-status__display-name',
+    TIMESTAMP: 'time[datetime]',
+    PERMALINK: '.status__relative-time, .detailed-status__datetime', // the href
+    MEDIA_THUMBNAIL: '.media-gallery__item-thumbnail', // the href of the full-size image
+    MEDIA_VIDEO: '.video-player video, .media-gallery__gifv video',
+    CARD: '.status-card',
+    CARD_TITLE: '.status-card__title',
+    CARD_IMAGE: '.status-card__image img',
+    REBLOGS: '.detailed-status__reblogs',
+    FAVOURITES: '.detailed-status__favorites',
+    ACTION_BAR: '.status__action-bar, .detailed-status__action-bar',
+    ACTION_COUNTER: '.icon-button__counter'
+  },
+  BLUESKY: {
+    THREAD_ITEM: '[data-testid^="postThreadItem-by-"]', // the author's handle follows "by-"
+    POST_TEXT: '[data-testid="postText"]',
+    POST_LINK: 'a[href*="/post/"]', // "/profile/<handle>/post/<rkey>", the timestamp of every post but the focal one
+    PROFILE_LINK: 'a[href^="/profile/"]', // "Display Name @handle"
+    LIKED_BY: 'a[href$="/liked-by"]', // focal post only, once it has likes: "12 likes"
+    REPOSTED_BY: 'a[href$="/reposted-by"]',
+    LIKE_COUNT: '[data-testid="likeCount"]',
+    REPOST_COUNT: '[data-testid="repostCount"]',
+    REPLY_BUTTON: '[data-testid="replyBtn"]',
+    IMAGE: 'img[src*="/img/feed_thumbnail/"], img[src*="/img/feed_fullsize/"]',
+    QUOTE_POST: '[role="link"][aria-label^="Post by "]' // quote embeds, labelled "Post by <handle>"
+  },
+  DISCOURSE: {
+    PAGE_MARKER: 'meta[name="generator"][content^="Discourse"], .topic-post article[data-post-id]',
+    TOPIC_POST: '.topic-post',
+    POST_ARTICLE: 'article[data-post-id]', // id="post_<post number>"
+    TOPIC_TITLE: '#topic-title .fancy-title',
+    COOKED: '.cooked', // the rendered post body
+    USERNAME: '.names .username a',
+    FULL_NAME: '.names .full-name',
+    POST_DATE: 'a.post-date', // the href ends with the post number
+    TIMESTAMP: '.post-date [data-time]', // milliseconds since the epoch
+    REPLY_TO_TAB: '.reply-to-tab', // only shown when replying to a post other than the one above
+    LIKE_COUNT: '.like-count',
+    SHOW_REPLIES: '.show-replies', // "2 Replies"
+    EMBEDDED_POSTS: '.embedded-posts' // copies of other posts shown by the reply-to tab and .show-replies
+  },
+  GITHUB: {
+    // Pull requests and Discussions render server-side (legacy markup), issues in the React issue viewer
+    TITLE: '.js-issue-title, [data-testid="issue-title"]',
+    COMMENT_GROUP: '.timeline-comment-group, [data-testid="issue-body"], .react-issue-comment', // legacy ids "issue-1", "pullrequest-1", "discussion-1", "issuecomment-1", "discussioncomment-1"
+    OPENING_BODY: '[data-testid="issue-body"]', // React issue viewer, the comments follow in the timeline
+    COMMENT_CONTAINER: '.js-comment-container', // Discussions nest the containers of replies in the one they reply to
+    BODY: '.comment-body, [data-testid="markdown-body"]',
+    AUTHOR: 'a.author, a[data-testid="issue-body-header-author"], a[data-testid="avatar-link"]',
+    TIMESTAMP: 'relative-time[datetime]',
+    PERMALINK: 'a.js-timestamp, a[href*="#issue-"], a[href*="#issuecomment-"]', // the href, its fragment names the comment
+    REACTION: '.social-reaction-summary-item, [role="toolbar"][aria-label="Reactions"] button', // one button per emoji
+    REACTION_EMOJI: 'g-emoji', // the alias attribute names the reaction; the React viewer shows the emoji only
+    REACTION_COUNT: '.js-discussion-reaction-group-count',
+    ANSWER: '.discussion-timeline-answer' // the comment container of the accepted answer
   },
   TWITTER: {
     TWEET: '[data-testid="tweetText"]',
     TWEET_ARTICLE: 'article[data-testid="tweet"]',
     SHOW_MORE_BUTTON: 'button[data-testid="tweet-text-show-more-link"]',
     USER_NAME: 'div[data-testid="User-Name"] a[href^="/"]',
-    SPAM_BUTTON: 'button:has(span:contains("Show probable spam"))'
+    USER_NAME_GROUP: 'div[data-testid="User-Name"]',
+    QUOTED_TWEET: 'div[role="link"]',
+    STATUS_LINK: 'a[href*="/status/"]',
+    TIMESTAMP: 'time[datetime]',
+    LIKE_BUTTON: '[data-testid="like"], [data-testid="unlike"]',
+    REPLY_BUTTON: '[data-testid="reply"]',
+    SPAM_BUTTON: '[role="button"]', // filtered by SPAM_BUTTON_TEXT, CSS cannot match text
+    SPAM_BUTTON_TEXT: 'Show probable spam',
+    PHOTO: '[data-testid="tweetPhoto"]',
+    VIDEO_PLAYER: '[data-testid="videoPlayer"]',
+    CARD: '[data-testid="card.wrapper"]'
   }
 } as const;
\ No newline at end of file
@@ -1,13 +1,112 @@
-import { Content } from '../types.js';
+import { Attachment, Content, ContentItem, ItemLink } from '../types.js';
+
+// DOM constants spelled out so extraction does not depend on the Node/NodeFilter globals
+const TEXT_NODE = 3;
+const ELEMENT_NODE = 1;
+const SHOW_TEXT = 0x4;
+const FILTER_ACCEPT = 1;
+const FILTER_REJECT = 2;
+
+export interface ExtractionContext {
+  document: Document;
+  url: string;
+  checkLayout: boolean; // Whether rendered dimensions and computed styles can be trusted
+}
+
+export interface ExtractFromOptions {
+  // Defaults to true only for the live browser document; parsed or server-side
+  // documents have no layout, so only inline styles and the hidden attribute are checked
+  checkLayout?: boolean;
+}
+
+export interface ExpandOptions {
+  timeout?: number; // Overall time budget in milliseconds (default: 10000)
+  settleTime?: number; // Milliseconds without DOM mutations after which the page counts as settled (default: 500)
+}
 
 export abstract class BaseExtractor {
   // Cache for cleaned text to avoid repeated processing
   private textCache = new Map<string, string>();
+  // Explicit document and URL set by extractFrom(), the live page is used otherwise
+  private context: ExtractionContext | null = null;
 
   constructor(protected includeHtml: boolean) {}
 
   public abstract extract(): Promise<Content>;
 
+  public async extractFrom(doc: Document, url: string, options: ExtractFromOptions = {}): Promise<Content> {
+    const previousContext = this.context;
+    this.context = {
+      document: doc,
+      url,
+      checkLayout: options.checkLayout ?? (typeof document !== 'undefined' && doc === document)
+    };
+
+    try {
+      return await this.extract();
+    } finally {
+      this.context = previousContext;
+    }
+  }
+
+  public async expand(options: ExpandOptions = {}): Promise<number> {
+    // Click the site's expanders until none are left or the time budget is spent. Expanding
+    // often reveals more expanders (nested "more replies"), so look again after each round
+    const deadline = Date.now() + (options.timeout ?? 10000);
+    const settleTime = options.settleTime ?? 500;
+    const clicked = new Set<Element>();
+
+    while (Date.now() < deadline) {
+      const expanders = this.getExpanders().filter(expander => !clicked.has(expander) && this.isElementVisible(expander));
+      if (expanders.length === 0) break;
+
+      expanders.forEach(expander => {
+        clicked.add(expander);
+        (expander as HTMLElement).click();
+      });
+      await this.waitForSettle(settleTime, deadline);
+    }
+
+    return clicked.size;
+  }
+
+  protected getExpanders(): Element[] {
+    // Elements that reveal collapsed or truncated content when clicked, none by default
+    return [];
+  }
+
+  protected waitForSettle(settleTime: number, deadline: number): Promise<void> {
+    const MutationObserverImpl = this.doc.defaultView?.MutationObserver ||
+      (typeof MutationObserver !== 'undefined' ? MutationObserver : undefined);
+
+    return new Promise(resolve => {
+      let settleTimer: ReturnType<typeof setTimeout>;
+      const observer = MutationObserverImpl ? new MutationObserverImpl(() => restart()) : null;
+      const finish = () => {
+        observer?.disconnect();
+        clearTimeout(settleTimer);
+        clearTimeout(deadlineTimer);
+        resolve();
+      };
+      const restart = () => {
+        clearTimeout(settleTimer);
+        settleTimer = setTimeout(finish, settleTime);
+      };
+      const deadlineTimer = setTimeout(finish, Math.max(0, deadline - Date.now()));
+
+      observer?.observe(this.doc.documentElement, { childList: true, subtree: true, attributes: true, characterData: true });
+      restart();
+    });
+  }
+
+  protected get doc(): Document {
+    return this.context ? this.context.document : document;
+  }
+
+  protected get pageURL(): string {
+    return this.context ? this.context.url : window.location.href;
+  }
+
   protected cleanText(text: string): string {
     if (this.textCache.has(text)) {
       return this.textCache.get(text)!;
@@ -30,9 +129,9 @@ export abstract class BaseExtractor {
   protected extractTextFromElement(element: Element): string {
     // Try TreeWalker first, fallback to simple textContent if not available
     try {
-      const walker = document.createTreeWalker(
+      const walker = element.ownerDocument.createTreeWalker(
         element,
-        NodeFilter.SHOW_TEXT,
+        SHOW_TEXT,
         {
           acceptNode: (node) => {
             // Check if any ancestor is an excluded element
@@ -40,12 +139,12 @@ export abstract class BaseExtractor {
             while (current) {
               const tagName = current.tagName.toLowerCase();
               if (['script', 'style', 'noscript', 'svg', 'canvas'].includes(tagName)) {
-                return NodeFilter.FILTER_REJECT;
+                return FILTER_REJECT;
               }
               current = current.parentElement;
             }
             
-            return NodeFilter.FILTER_ACCEPT;
+            return FILTER_ACCEPT;
           }
         }
       );
@@ -76,12 +175,12 @@ export abstract class BaseExtractor {
     const textParts: string[] = [];
     
     for (const node of element.childNodes) {
-      if (node.nodeType === Node.TEXT_NODE) {
+      if (node.nodeType === TEXT_NODE) {
         const text = node.textContent?.trim();
         if (text && text.length > 0) {
           textParts.push(text);
         }
-      } else if (node.nodeType === Node.ELEMENT_NODE) {
+      } else if (node.nodeType === ELEMENT_NODE) {
         const el = node as Element;
         const tagName = el.tagName.toLowerCase();
         
@@ -108,6 +207,13 @@ export abstract class BaseExtractor {
     if (!element.isConnected) {
       return false;
     }
+
+    if (this.context && !this.context.checkLayout) {
+      // No rendering available: rely on what the markup itself says
+      return !element.closest('[hidden]') &&
+             htmlElement.style.display !== 'none' &&
+             htmlElement.style.visibility !== 'hidden';
+    }
     
     // Check if element has offsetParent (null means not rendered)
     if (htmlElement.offsetParent === null) {
@@ -131,7 +237,7 @@ export abstract class BaseExtractor {
     
     // Check computed styles as final fallback
     try {
-      const computedStyle = window.getComputedStyle(element);
+      const computedStyle = (element.ownerDocument.defaultView || window).getComputedStyle(element);
       return computedStyle.display !== 'none' && 
              computedStyle.visibility !== 'hidden';
     } catch (error) {
@@ -140,15 +246,236 @@ export abstract class BaseExtractor {
     }
   }
 
+  protected linkThread(items: ContentItem[]): void {
+    // Items are expected in document order. Those with a depth but no explicit parent
+    // reply to the closest preceding item that sits higher up in the thread.
+    const ancestors: ContentItem[] = [];
+    items.forEach(item => {
+      if (item.depth === undefined) return;
+
+      while (ancestors.length > 0 && ancestors[ancestors.length - 1].depth! >= item.depth) {
+        ancestors.pop();
+      }
+      if (item.parentId === undefined && ancestors.length > 0) {
+        item.parentId = ancestors[ancestors.length - 1].id;
+      }
+      ancestors.push(item);
+    });
+
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    items.forEach(item => {
+      item.childIds = [];
+    });
+    items.forEach(item => {
+      if (item.parentId !== undefined) {
+        itemsById.get(item.parentId)?.childIds!.push(item.id);
+      }
+    });
+  }
+
+  protected reconstructThread(items: ContentItem[], focal: ContentItem): void {
+    // Thread pages list the ancestors of the focal item from the root down, each replying to
+    // the one before it, then the focal item and its replies as a flat list
+    const focalIndex = items.indexOf(focal);
+    items.forEach((item, index) => {
+      if (index === 0) return;
+      const parent = index <= focalIndex ? items[index - 1] : focal;
+      item.type = 'comment';
+      item.parentId = parent.id;
+      item.depth = (parent.depth ?? 0) + 1;
+    });
+  }
+
+  protected queryOwn(container: Element, selector: string, nestedSelector: string): Element | null {
+    return this.queryAllOwn(container, selector, nestedSelector)[0] || null;
+  }
+
+  protected queryAllOwn(container: Element, selector: string, nestedSelector: string): Element[] {
+    // Matches that belong to the container itself rather than to an item embedded in it
+    // (quoted posts, expanded copies of other posts)
+    return Array.from(container.querySelectorAll(selector)).filter(element => {
+      const nested = element.closest(nestedSelector);
+      return !nested || nested === container || !container.contains(nested);
+    });
+  }
+
+  protected parseCount(text: string | null | undefined): number | undefined {
+    // Handles "243 points", "1,234", "1.2K Likes" and similar abbreviated counts. The suffix
+    // must end a word, so the "b" of "5 boosts" is not read as billions
+    const match = text?.replace(/,/g, '').match(/(-?\d+(?:\.\d+)?)\s*(?:([KMB])\b)?/i);
+    if (!match) return undefined;
+
+    const multipliers: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9 };
+    const value = parseFloat(match[1]) * (match[2] ? multipliers[match[2].toUpperCase()] : 1);
+    return Math.round(value);
+  }
+
+  protected parseDate(value: string | null | undefined): string | undefined {
+    // Accepts ISO-like strings (including "+0000" offsets and missing zones, read as UTC) and unix seconds
+    const trimmed = value?.trim();
+    if (!trimmed) return undefined;
+
+    let date: Date;
+    if (/^\d{9,11}$/.test(trimmed)) {
+      date = new Date(parseInt(trimmed, 10) * 1000);
+    } else {
+      let normalized = trimmed.replace(/([+-]\d{2})(\d{2})$/, '$1:$2');
+      if (/^\d{4}-\d{2}-\d{2}T[\d:.]+$/.test(normalized)) {
+        normalized += 'Z';
+      }
+      date = new Date(normalized);
+    }
+
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  protected resolveUrl(href: string | null | undefined, baseUrl: string = this.pageURL): string | undefined {
+    if (!href) return undefined;
+    try {
+      return new URL(href, baseUrl).href;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  protected getHref(element: Element | null | undefined, attribute: string = 'href'): string | undefined {
+    // Like HTMLAnchorElement.href, but resolved against the extraction URL when the
+    // document was passed explicitly (parsed documents carry an unrelated base URL)
+    if (!element) return undefined;
+    return this.resolveUrl(element.getAttribute(attribute), this.context ? this.context.url : element.baseURI);
+  }
+
+  protected createAttachment(media: Element, kind: Attachment['kind'] = media.tagName.toLowerCase() === 'video' ? 'video' : 'image'): Attachment | null {
+    // Lazy-loaded images keep their real source in a data attribute until scrolled into view,
+    // videos may list theirs in <source> children
+    const source = media.hasAttribute('src') ? media : media.querySelector('source[src]') || media;
+    const attribute = ['data-lazy-src', 'data-src', 'src'].find(name => source.getAttribute(name));
+    const src = attribute ? this.getHref(source, attribute) : undefined;
+    if (!src || src.startsWith('data:')) return null;
+
+    const width = parseInt(media.getAttribute('width') || '', 10);
+    const height = parseInt(media.getAttribute('height') || '', 10);
+    return {
+      kind,
+      src,
+      alt: media.getAttribute('alt')?.trim() || undefined,
+      width: isNaN(width) ? undefined : width,
+      height: isNaN(height) ? undefined : height,
+      poster: this.getHref(media, 'poster')
+    };
+  }
+
+  protected createLinkAttachment(linkEl: Element, title: string): Attachment[] | undefined {
+    // Link submissions point off-site; text posts (Ask HN, text stories) link to their own discussion
+    const src = this.resolveUrl(linkEl.getAttribute('href'));
+    if (!src || new URL(src).origin === new URL(this.pageURL).origin) return undefined;
+    return [{ kind: 'link', src, alt: title }];
+  }
+
+  protected uniqueAttachments(attachments: (Attachment | null)[]): Attachment[] | undefined {
+    // The same media is often rendered twice (blurred backgrounds, responsive variants);
+    // keep its first position and fill in details only the other copies have
+    const bySrc = new Map<string, Attachment>();
+    attachments.forEach(attachment => {
+      if (!attachment) return;
+      const first = bySrc.get(attachment.src);
+      if (!first) {
+        bySrc.set(attachment.src, { ...attachment });
+        return;
+      }
+      (Object.keys(attachment) as (keyof Attachment)[]).forEach(key => {
+        if (first[key] === undefined) {
+          Object.assign(first, { [key]: attachment[key] });
+        }
+      });
+    });
+    return bySrc.size > 0 ? Array.from(bySrc.values()) : undefined;
+  }
+
+  protected extractLinks(element: Element): ItemLink[] | undefined {
+    const links = Array.from(element.querySelectorAll('a[href]'))
+      .map(anchor => this.createLink(anchor))
+      .filter((link): link is ItemLink => link !== null);
+    return links.length > 0 ? links : undefined;
+  }
+
+  private createLink(anchor: Element): ItemLink | null {
+    // In-page anchors, javascript: and mailto: links are not links to other content
+    const href = this.getHref(anchor);
+    if (!href || !/^https?:/i.test(href) || anchor.getAttribute('href')!.startsWith('#')) return null;
+
+    const text = this.cleanText((anchor.textContent || '').replace(/\s+/g, ' '));
+    const canonicalUrl = this.getCanonicalUrl(href, [anchor.getAttribute('title'), text]);
+    return {
+      href,
+      text,
+      canonicalUrl,
+      internal: this.isInternalUrl(canonicalUrl || href)
+    };
+  }
+
+  private getCanonicalUrl(href: string, displayed: (string | null)[]): string | undefined {
+    // Shorteners and redirects (t.co) hide the target, but the anchor often spells it out as
+    // "https://example.com/article" or "example.com/article…". Without a scheme or a path the
+    // text is as likely a file name ("README.md") as a domain, so it does not count
+    for (const candidate of displayed) {
+      const text = candidate?.trim().replace(/(…|\.\.\.)$/, '');
+      if (!text || !/^(https?:\/\/[^\s/]+\.[^\s/]+\S*|[\w-]+(\.[\w-]+)+\/\S*)$/i.test(text)) continue;
+
+      const url = this.resolveUrl(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+      if (url && new URL(url).hostname !== new URL(href).hostname) {
+        return url;
+      }
+    }
+    return undefined;
+  }
+
+  private isInternalUrl(url: string): boolean {
+    // Subdomains count as the same site (old.reddit.com links on www.reddit.com)
+    const host = (value: string) => new URL(value).hostname.replace(/^www\./, '');
+    try {
+      const linked = host(url);
+      const page = host(this.pageURL);
+      return linked === page || linked.endsWith(`.${page}`) || page.endsWith(`.${linked}`);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  protected createItemId(text: string, options: { nativeId?: string | null; author?: string } = {}): string {
+    // Platform identifiers survive edits and never collide; hash the content otherwise.
+    // Identical content from the same author is told apart later by ensureUniqueIds()
+    if (options.nativeId) {
+      return options.nativeId;
+    }
+    return this.generateId(options.author ? `${options.author}\u0000${text}` : text);
+  }
+
+  protected ensureUniqueIds(items: ContentItem[]): void {
+    // Repeated ids ("+1", "This.") get the position of the repeat appended: 123, 123-2, 123-3...
+    // Counting occurrences keeps ids stable when unrelated items are added or removed
+    const occurrences = new Map<string, number>();
+    items.forEach(item => {
+      const count = (occurrences.get(item.id) || 0) + 1;
+      occurrences.set(item.id, count);
+      if (count > 1) {
+        item.id = `${item.id}-${count}`;
+      }
+    });
+  }
+
   protected generateId(content: string): string {
-    // Simple hash function for generating unique IDs
-    let hash = 0;
-    if (content.length === 0) return hash.toString();
+    // 53-bit string hash (cyrb53), far less collision-prone than a 32-bit rolling hash
+    if (content.length === 0) return '0';
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
     for (let i = 0; i < content.length; i++) {
       const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
+      h1 = Math.imul(h1 ^ char, 2654435761);
+      h2 = Math.imul(h2 ^ char, 1597334677);
     }
-    return Math.abs(hash).toString();
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString();
   }
-}
\ No newline at end of file
+}
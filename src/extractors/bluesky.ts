@@ -0,0 +1,152 @@
+import { BaseExtractor } from './base.js';
+import { Attachment, Content, ContentItem, ContentItemMetadata } from '../types.js';
+import { SITE_SELECTORS } from '../constants.js';
+
+const FULL_DATE = /^\w+ \d{1,2}, \d{4} at \d{1,2}:\d{2}(\s?[AP]M)?$/i;
+
+export class BlueskyExtractor extends BaseExtractor {
+  public async extract(): Promise<Content> {
+    const content: Content = {
+      pageURL: this.pageURL,
+      title: this.doc.title || 'Bluesky',
+      items: []
+    };
+
+    const postElements = Array.from(this.doc.querySelectorAll(SITE_SELECTORS.BLUESKY.THREAD_ITEM) as NodeListOf<HTMLElement>)
+      .filter(postEl => this.isElementVisible(postEl));
+    const focalEl = this.findFocalPost(postElements);
+    // Quoted posts keyed by the item of the post quoting them
+    const quotedBy = new Map<ContentItem, ContentItem>();
+    let focal: ContentItem | undefined;
+
+    postElements.forEach((postEl) => {
+      const item = this.createPostItem(postEl, this.getHandle(postEl), postEl === focalEl);
+      if (!item) return;
+
+      content.items.push(item);
+      if (postEl === focalEl) {
+        focal = item;
+      }
+      this.extractQuotedPosts(postEl).forEach(quote => {
+        content.items.push(quote);
+        quotedBy.set(quote, item);
+      });
+    });
+
+    this.ensureUniqueIds(content.items);
+
+    if (focal) {
+      this.reconstructThread(content.items.filter(item => !quotedBy.has(item)), focal);
+    }
+    // Quoted posts are embedded in the post quoting them, one level below it
+    quotedBy.forEach((quoting, quote) => {
+      quote.parentId = quoting.id;
+      quote.depth = quoting.depth! + 1;
+    });
+    this.linkThread(content.items);
+
+    return content;
+  }
+
+  private createPostItem(postEl: Element, handle: string | undefined, isFocal = false): ContentItem | null {
+    const textEl = this.queryOwn(postEl, SITE_SELECTORS.BLUESKY.POST_TEXT, SITE_SELECTORS.BLUESKY.QUOTE_POST);
+    const textContent = textEl ? this.extractTextFromElement(textEl) : '';
+    const attachments = this.extractAttachments(postEl);
+    if (!textContent && !attachments) return null;
+
+    const postLink = this.getPostLink(postEl, handle);
+    // The focal post has no link to itself, it is the page
+    const URL = this.getHref(postLink) || (isFocal ? this.pageURL : undefined);
+    const rkey = URL?.match(/\/profile\/[^/]+\/post\/([^/?#]+)/)?.[1];
+    const metadata = this.extractMetadata(postEl, handle);
+    return {
+      id: this.createItemId(textContent, {
+        nativeId: handle && rkey ? `bluesky:${handle}/${rkey}` : null,
+        author: metadata.author
+      }),
+      element: postEl as HTMLElement,
+      URL,
+      textContent,
+      htmlContent: this.includeHtml && textEl ? textEl.innerHTML : undefined,
+      links: textEl ? this.extractLinks(textEl) : undefined,
+      type: 'post',
+      selected: false,
+      depth: 0,
+      metadata,
+      attachments
+    };
+  }
+
+  private extractQuotedPosts(postEl: Element): ContentItem[] {
+    // Quotes of quotes are shown as a bare link, only the outermost quote has content
+    return Array.from(postEl.querySelectorAll(SITE_SELECTORS.BLUESKY.QUOTE_POST))
+      .filter(quoteEl => !quoteEl.parentElement?.closest(SITE_SELECTORS.BLUESKY.QUOTE_POST) && this.isElementVisible(quoteEl))
+      .map(quoteEl => this.createPostItem(quoteEl, quoteEl.getAttribute('aria-label')!.replace('Post by ', '').trim() || undefined))
+      .filter((quote): quote is ContentItem => quote !== null);
+  }
+
+  private findFocalPost(postElements: Element[]): Element | undefined {
+    // The thread is opened on /profile/<handle or DID>/post/<rkey>. Every post but that one links
+    // to itself; its liked-by and reposted-by links, shown once it has likes or reposts, carry the rkey
+    const [, owner, rkey] = this.pageURL.match(/\/profile\/([^/]+)\/post\/([^/?#]+)/) || [];
+    const candidates = postElements.filter(postEl => !this.getPostLink(postEl, this.getHandle(postEl)));
+    return candidates.find(postEl => this.getHandle(postEl) === owner) ||
+      candidates.find(postEl => rkey && this.queryAllOwn(postEl, SITE_SELECTORS.BLUESKY.POST_LINK, SITE_SELECTORS.BLUESKY.QUOTE_POST)
+        .some(link => link.getAttribute('href')?.includes(`/post/${rkey}/`))) ||
+      (candidates.length === 1 ? candidates[0] : undefined);
+  }
+
+  private getHandle(postEl: Element): string {
+    return postEl.getAttribute('data-testid')!.replace('postThreadItem-by-', '');
+  }
+
+  private getPostLink(postEl: Element, handle: string | undefined): Element | null {
+    // Links in the text and to the liked-by/reposted-by lists also contain "/post/"
+    return this.queryAllOwn(postEl, SITE_SELECTORS.BLUESKY.POST_LINK, SITE_SELECTORS.BLUESKY.QUOTE_POST).find(link => {
+      const match = link.getAttribute('href')?.match(/^(?:https:\/\/bsky\.app)?\/profile\/([^/]+)\/post\/[^/?#]+$/);
+      return match && (!handle || match[1] === handle);
+    }) || null;
+  }
+
+  private extractAttachments(postEl: Element): Attachment[] | undefined {
+    // Feed images are thumbnails, the full-size variant sits at the same path
+    const images = this.queryAllOwn(postEl, SITE_SELECTORS.BLUESKY.IMAGE, SITE_SELECTORS.BLUESKY.QUOTE_POST)
+      .map(img => this.createAttachment(img, 'image'))
+      .map(image => image ? { ...image, src: image.src.replace('/img/feed_thumbnail/', '/img/feed_fullsize/') } : null);
+    return this.uniqueAttachments(images);
+  }
+
+  private extractMetadata(postEl: Element, handle: string | undefined): ContentItemMetadata {
+    // The avatar links to the profile too; the name link reads "Display Name @handle"
+    const profileText = this.queryAllOwn(postEl, SITE_SELECTORS.BLUESKY.PROFILE_LINK, SITE_SELECTORS.BLUESKY.QUOTE_POST)
+      .map(link => this.extractTextFromElement(link))
+      .find(text => handle && text.includes(`@${handle}`));
+    const displayName = profileText?.split(`@${handle}`)[0].trim();
+    const likedBy = this.queryOwn(postEl, SITE_SELECTORS.BLUESKY.LIKED_BY, SITE_SELECTORS.BLUESKY.QUOTE_POST);
+    const repostedBy = this.queryOwn(postEl, SITE_SELECTORS.BLUESKY.REPOSTED_BY, SITE_SELECTORS.BLUESKY.QUOTE_POST);
+
+    return {
+      author: handle,
+      authorName: displayName || undefined,
+      authorUrl: handle ? this.resolveUrl(`/profile/${handle}`) : undefined,
+      createdAt: this.extractDate(postEl, handle),
+      likes: this.parseCount((likedBy || this.queryOwn(postEl, SITE_SELECTORS.BLUESKY.LIKE_COUNT, SITE_SELECTORS.BLUESKY.QUOTE_POST))?.textContent),
+      reposts: this.parseCount((repostedBy || this.queryOwn(postEl, SITE_SELECTORS.BLUESKY.REPOST_COUNT, SITE_SELECTORS.BLUESKY.QUOTE_POST))?.textContent),
+      replies: this.parseCount(this.queryOwn(postEl, SITE_SELECTORS.BLUESKY.REPLY_BUTTON, SITE_SELECTORS.BLUESKY.QUOTE_POST)?.textContent)
+    };
+  }
+
+  private extractDate(postEl: Element, handle: string | undefined): string | undefined {
+    // Timestamps are relative ("2h") with the full date, "February 3, 2024 at 12:00 PM", in the
+    // tooltip of the link to the post. The focal post spells the full date out as text
+    const postLink = this.getPostLink(postEl, handle);
+    const candidates = [
+      postLink?.getAttribute('data-tooltip'),
+      postLink?.getAttribute('aria-label'),
+      postLink?.getAttribute('title'),
+      ...this.queryAllOwn(postEl, '*', SITE_SELECTORS.BLUESKY.QUOTE_POST).filter(element => element.children.length === 0).map(element => element.textContent)
+    ];
+    const fullDate = candidates.map(text => text?.trim()).find(text => text && FULL_DATE.test(text));
+    return this.parseDate(fullDate?.replace(' at ', ' '));
+  }
+}
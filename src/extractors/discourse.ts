@@ -0,0 +1,109 @@
+import { BaseExtractor } from './base.js';
+import { Content, ContentItem, ContentItemMetadata } from '../types.js';
+import { SITE_SELECTORS } from '../constants.js';
+
+export class DiscourseExtractor extends BaseExtractor {
+  public async extract(): Promise<Content> {
+    const content: Content = {
+      pageURL: this.pageURL,
+      title: this.doc.title || 'Discourse',
+      items: []
+    };
+
+    const postElements = this.doc.querySelectorAll(SITE_SELECTORS.DISCOURSE.TOPIC_POST) as NodeListOf<HTMLElement>;
+    const topicTitle = this.doc.querySelector(SITE_SELECTORS.DISCOURSE.TOPIC_TITLE);
+    const title = topicTitle ? this.extractTextFromElement(topicTitle) : '';
+
+    postElements.forEach((postEl) => {
+      const cookedEl = this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.COOKED, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS);
+      if (!cookedEl || !this.isElementVisible(postEl)) return;
+
+      const metadata = this.extractMetadata(postEl);
+      // The first post opens the topic, every other post is a reply in it
+      const isTopic = metadata.postNumber === 1;
+      const body = this.extractTextFromElement(cookedEl);
+      const textContent = isTopic ? [title, body].filter(Boolean).join('\n\n') : body;
+      if (!textContent || textContent.length <= 5) return;
+
+      const postId = this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.POST_ARTICLE, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS)?.getAttribute('data-post-id');
+      content.items.push({
+        id: this.createItemId(textContent, { nativeId: postId ? `discourse:${postId}` : null, author: metadata.author }),
+        element: postEl,
+        URL: this.getHref(this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.POST_DATE, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS)),
+        textContent,
+        htmlContent: this.includeHtml ? cookedEl.innerHTML : undefined,
+        links: this.extractLinks(cookedEl),
+        type: isTopic ? 'post' : 'comment',
+        selected: false,
+        depth: isTopic ? 0 : undefined,
+        metadata: isTopic && title ? { ...metadata, title } : metadata
+      });
+    });
+
+    this.ensureUniqueIds(content.items);
+    this.linkReplies(content.items);
+    this.linkThread(content.items);
+
+    return content;
+  }
+
+  private linkReplies(items: ContentItem[]): void {
+    // Replies name the post they answer; the others, and replies to posts not loaded on the
+    // page, answer the topic. Discourse hides the reply-to tab of replies to the post right
+    // above them, so those end up as replies to the topic too
+    const byNumber = new Map<number, ContentItem>();
+    items.forEach(item => {
+      if (item.metadata?.postNumber !== undefined) {
+        byNumber.set(item.metadata.postNumber, item);
+      }
+    });
+    const topic = byNumber.get(1);
+
+    items.forEach(item => {
+      if (item === topic) return;
+      const replyTo = item.metadata?.replyToPostNumber;
+      const parent = (replyTo !== undefined ? byNumber.get(replyTo) : undefined) || topic;
+      if (parent && parent !== item) {
+        item.parentId = parent.id;
+        item.depth = (parent.depth ?? 0) + 1;
+      } else {
+        item.depth = 1;
+      }
+    });
+  }
+
+  private getPostNumber(postEl: Element): number | undefined {
+    // Posts are anchored as #post_<number>; their date links to /t/<slug>/<topic id>/<number>
+    const articleId = this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.POST_ARTICLE, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS)?.id.match(/^post_(\d+)$/)?.[1];
+    const dateHref = this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.POST_DATE, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS)?.getAttribute('href')?.match(/\/t\/[^/]+\/\d+\/(\d+)/)?.[1];
+    const postNumber = articleId || dateHref;
+    return postNumber ? parseInt(postNumber, 10) : undefined;
+  }
+
+  private getReplyToPostNumber(postEl: Element): number | undefined {
+    // Older versions link the tab to the post, newer ones reference its embedded copy
+    // ("embedded-posts__top--3") or name it in the title
+    const tab = this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.REPLY_TO_TAB, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS);
+    const reference = tab?.getAttribute('href') || tab?.getAttribute('aria-controls') || tab?.getAttribute('title');
+    const postNumber = reference?.match(/(\d+)\D*$/)?.[1];
+    return postNumber ? parseInt(postNumber, 10) : undefined;
+  }
+
+  private extractMetadata(postEl: Element): ContentItemMetadata {
+    const userLink = this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.USERNAME, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS);
+    const time = this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.TIMESTAMP, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS)?.getAttribute('data-time');
+    const likeCount = this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.LIKE_COUNT, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS);
+    const showReplies = this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.SHOW_REPLIES, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS);
+
+    return {
+      author: userLink?.textContent?.trim() || undefined,
+      authorName: this.queryOwn(postEl, SITE_SELECTORS.DISCOURSE.FULL_NAME, SITE_SELECTORS.DISCOURSE.EMBEDDED_POSTS)?.textContent?.trim() || undefined,
+      authorUrl: this.getHref(userLink),
+      createdAt: time && /^\d+$/.test(time) ? this.parseDate(String(Math.floor(parseInt(time, 10) / 1000))) : undefined,
+      likes: this.parseCount(likeCount?.textContent),
+      replies: showReplies ? this.parseCount(showReplies.textContent) : undefined,
+      postNumber: this.getPostNumber(postEl),
+      replyToPostNumber: this.getReplyToPostNumber(postEl)
+    };
+  }
+}
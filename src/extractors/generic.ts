@@ -1,58 +1,366 @@
 import { BaseExtractor } from './base.js';
-import { Content, ContentItem } from '../types.js';
+import { Attachment, Content, ContentItem, ContentItemMetadata } from '../types.js';
+
+// Class/id heuristics from Mozilla's Readability: boilerplate containers, and names that
+// rescue a container from looking like boilerplate ("main-header" vs "article-body")
+const UNLIKELY_CANDIDATES = /-ad-|ad-break|agegate|banner|breadcrumbs|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|yom-remote/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_NAMES = /article|blog|body|content|entry|h-entry|hentry|main|page|post|story|text/i;
+const NEGATIVE_NAMES = /-ad-|banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|hidden|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const BOILERPLATE_TAGS = ['nav', 'aside', 'footer', 'dialog', 'script', 'style', 'noscript', 'template', 'button'];
+const BOILERPLATE_ROLES = ['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'alertdialog', 'menu', 'menubar', 'search'];
+
+// Elements whose own text is scored, and the block children that keep a <div> from counting as one
+const PARAGRAPH_SELECTOR = 'p, pre, td, div';
+const BLOCK_SELECTOR = 'address, article, aside, blockquote, div, dl, figure, footer, form, h1, h2, h3, h4, h5, h6, header, main, nav, ol, p, pre, section, table, ul';
+
+// Comment markup: schema.org microdata, WordPress comment lists and the usual class/id names.
+// Comment sections without such markup are found by their repeated author/time blocks
+const COMMENT_SELECTOR = '[itemtype$="schema.org/Comment"], .commentlist > li, .comment-list > li, .commentlist .children > li, .comment-list .children > li, .comment, [id^="comment-"]';
+// WordPress and most blog engines anchor each comment as #comment-123
+const COMMENT_ID = /^comment-\d+$/;
+const COMMENT_SECTION = '#comments, .comments, #discussion, .discussion, #responses, .responses';
+const COMMENT_BODIES = ['[itemprop="text"]', '.comment-content', '.comment-text', '.comment-body'];
+const COMMENT_AUTHOR = '[itemprop="author"] [itemprop="name"], [itemprop="author"], .comment-author .fn, .fn, .comment-author, .author, [rel="author"], .username';
+const COMMENT_TIME = 'time, [itemprop="dateCreated"], [itemprop="datePublished"]';
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const SCORED_ANCESTORS = 3;
 
 export class GenericExtractor extends BaseExtractor {
+  // Boilerplate verdicts per element, valid for one extraction
+  private boilerplate = new Map<Element, boolean>();
+
   public async extract(): Promise<Content> {
     const content: Content = {
-      pageURL: window.location.href,
-      title: document.title || 'Untitled Page',
+      pageURL: this.pageURL,
+      title: this.doc.title || 'Untitled Page',
       items: []
     };
+    this.boilerplate.clear();
 
-    // Basic implementation: extract main content areas
-    const contentSelectors = [
-      'article',
-      'main',
-      '[role="main"]',
-      '.content',
-      '#content',
-      '.post',
-      '.entry-content'
-    ];
-
-    let foundElements: HTMLElement[] = [];
-
-    for (const selector of contentSelectors) {
-      const elements = document.querySelectorAll(selector) as NodeListOf<HTMLElement>;
-      if (elements.length > 0) {
-        foundElements = Array.from(elements);
-        break;
+    // Comments are extracted separately; treating them as boilerplate keeps them out of the post
+    const commentElements = this.findComments();
+    commentElements.forEach(commentEl => this.boilerplate.set(commentEl, true));
+
+    // Pages listing several articles (blog indexes, feeds) yield one item per article,
+    // otherwise the highest scoring container is the article body
+    const articles = this.findArticles();
+    const mainContent = articles.length > 1 ? articles : [this.findMainContent()].filter((el): el is HTMLElement => el !== null);
+
+    mainContent.forEach((element) => {
+      const cleaned = this.withoutBoilerplate(element);
+      const textContent = this.extractTextFromElement(cleaned);
+      if (textContent && textContent.length > 20) { // Minimum content length
+        content.items.push(this.createItem(element, cleaned, textContent));
       }
+    });
+
+    // Fallback: use paragraphs if no container stands out from the page body
+    if (mainContent.length === 0) {
+      const paragraphs = this.doc.querySelectorAll('p') as NodeListOf<HTMLElement>;
+      Array.from(paragraphs)
+        .filter(p => !this.isInBoilerplate(p) && this.isElementVisible(p) && this.extractTextFromElement(p).length > 50)
+        .forEach(p => content.items.push(this.createItem(p, p, this.extractTextFromElement(p))));
     }
 
-    // Fallback: use paragraphs if no main content found
-    if (foundElements.length === 0) {
-      const paragraphs = document.querySelectorAll('p') as NodeListOf<HTMLElement>;
-      foundElements = Array.from(paragraphs).filter(p => 
-        this.isElementVisible(p) && this.extractTextFromElement(p).length > 50
-      );
+    this.extractComments(content, commentElements);
+
+    this.ensureUniqueIds(content.items);
+    this.linkThread(content.items);
+    return content;
+  }
+
+  private findComments(): Element[] {
+    const marked = Array.from(this.doc.querySelectorAll(COMMENT_SELECTOR)).filter(element =>
+      // Syntax highlighters mark code comments with the same class names
+      !element.closest('pre, code') && (!element.id.startsWith('comment-') || COMMENT_ID.test(element.id) || element.matches('.comment, li'))
+    );
+    if (marked.length > 0) return marked;
+
+    const blocks: Element[] = [];
+    this.doc.querySelectorAll(COMMENT_SECTION).forEach(section => this.collectRepeatedBlocks(section, blocks));
+    return blocks;
+  }
+
+  private collectRepeatedBlocks(container: Element, blocks: Element[], replySignature?: string): void {
+    // Siblings of the same kind that each name an author and a time are comments; within a
+    // comment, a single block of that kind is enough to be a reply
+    const groups = new Map<string, Element[]>();
+    Array.from(container.children).forEach(child => {
+      if (!child.querySelector(COMMENT_TIME) || !child.querySelector(COMMENT_AUTHOR)) return;
+      const signature = `${child.tagName} ${Array.from(child.classList).sort().join(' ')}`;
+      groups.set(signature, [...(groups.get(signature) || []), child]);
+    });
+
+    const found = new Set<Element>();
+    groups.forEach((members, signature) => {
+      if (members.length < 2 && signature !== replySignature) return;
+      members.forEach(member => {
+        blocks.push(member);
+        found.add(member);
+        this.collectRepeatedBlocks(member, blocks, signature);
+      });
+    });
+    Array.from(container.children)
+      .filter(child => !found.has(child))
+      .forEach(child => this.collectRepeatedBlocks(child, blocks, replySignature));
+  }
+
+  private extractComments(content: Content, commentElements: Element[]): void {
+    const comments = new Set(commentElements);
+    const itemsByComment = new Map<Element, ContentItem>();
+    const posts = content.items.filter(item => item.type === 'post');
+    // A single post is what the comments are about; on listings their thread root is unknown
+    const rootPost = posts.length === 1 ? posts[0] : undefined;
+    if (rootPost) {
+      rootPost.depth = 0;
     }
 
-    foundElements.forEach((element, index) => {
-      const textContent = this.extractTextFromElement(element);
-      if (textContent && textContent.length > 20) { // Minimum content length
-        const item: ContentItem = {
-          id: this.generateId(textContent),
-          element,
-          textContent,
-          htmlContent: this.includeHtml ? element.innerHTML : undefined,
-          type: 'post',
-          selected: false
-        };
-        content.items.push(item);
+    const getParentComment = (element: Element): Element | null => {
+      for (let current = element.parentElement; current; current = current.parentElement) {
+        if (comments.has(current)) return current;
       }
+      return null;
+    };
+    const queryOwn = (commentEl: Element, selector: string): Element | null =>
+      Array.from(commentEl.querySelectorAll(selector)).find(match => getParentComment(match) === commentEl) || null;
+
+    commentElements.forEach((commentEl) => {
+      if (!this.isElementVisible(commentEl)) return;
+
+      const bodyEl = COMMENT_BODIES.map(selector => queryOwn(commentEl, selector)).find(Boolean) || commentEl;
+      const cleaned = this.withoutBoilerplate(bodyEl);
+      const textContent = this.extractTextFromElement(cleaned);
+      if (!textContent || textContent.length <= 5) return;
+
+      let depth = 1;
+      for (let ancestor = getParentComment(commentEl); ancestor; ancestor = getParentComment(ancestor)) {
+        depth++;
+      }
+      let parent = getParentComment(commentEl);
+      while (parent && !itemsByComment.has(parent)) {
+        parent = getParentComment(parent);
+      }
+
+      const metadata = this.extractCommentMetadata(commentEl, queryOwn);
+      const item: ContentItem = {
+        id: this.createItemId(textContent, { author: metadata.author }),
+        element: commentEl as HTMLElement,
+        URL: this.getCommentPermalink(commentEl, queryOwn),
+        textContent,
+        htmlContent: this.includeHtml ? cleaned.innerHTML : undefined,
+        links: this.extractLinks(cleaned),
+        type: 'comment',
+        selected: false,
+        parentId: parent ? itemsByComment.get(parent)!.id : rootPost?.id,
+        depth,
+        metadata,
+        attachments: this.extractAttachments(cleaned)
+      };
+      content.items.push(item);
+      itemsByComment.set(commentEl, item);
     });
+  }
 
-    return content;
+  private extractCommentMetadata(commentEl: Element, queryOwn: (commentEl: Element, selector: string) => Element | null): ContentItemMetadata {
+    const authorEl = queryOwn(commentEl, COMMENT_AUTHOR);
+    const timeEl = queryOwn(commentEl, COMMENT_TIME);
+    const authorLink = authorEl?.matches('a[href]') ? authorEl : authorEl?.querySelector('a[href]');
+
+    return {
+      // WordPress appends "says:" to the author name
+      author: authorEl ? this.extractTextFromElement(authorEl).replace(/\s+says:?$/i, '') || undefined : undefined,
+      authorUrl: this.getHref(authorLink),
+      createdAt: this.parseDate(timeEl?.getAttribute('datetime') || timeEl?.getAttribute('content'))
+    };
+  }
+
+  private getCommentPermalink(commentEl: Element, queryOwn: (commentEl: Element, selector: string) => Element | null): string | undefined {
+    // The timestamp usually links to the comment itself, else a link to its #comment anchor does
+    const timeLink = queryOwn(commentEl, COMMENT_TIME)?.closest('a[href]');
+    const anchorLink = queryOwn(commentEl, 'a[href*="#comment"]');
+    if (timeLink && commentEl.contains(timeLink)) return this.getHref(timeLink);
+    if (anchorLink) return this.getHref(anchorLink);
+    return commentEl.id ? this.resolveUrl(`#${commentEl.id}`) : undefined;
+  }
+
+  private createItem(element: HTMLElement, cleaned: Element, textContent: string): ContentItem {
+    return {
+      id: this.createItemId(textContent),
+      element,
+      textContent,
+      htmlContent: this.includeHtml ? cleaned.innerHTML : undefined,
+      links: this.extractLinks(cleaned),
+      type: 'post',
+      selected: false,
+      attachments: this.extractAttachments(cleaned)
+    };
+  }
+
+  private findArticles(): HTMLElement[] {
+    return (Array.from(this.doc.querySelectorAll('article')) as HTMLElement[]).filter(article =>
+      !article.parentElement?.closest('article') && !this.isInBoilerplate(article) && this.isElementVisible(article)
+    );
+  }
+
+  private findMainContent(): HTMLElement | null {
+    // Readability-style scoring: every paragraph adds points for its length and commas to
+    // the containers around it, the nearest ones getting the most
+    const scores = new Map<Element, number>();
+    const body = this.doc.body;
+
+    Array.from(this.doc.querySelectorAll(PARAGRAPH_SELECTOR)).forEach((paragraph) => {
+      if (paragraph.tagName.toLowerCase() === 'div' && paragraph.querySelector(BLOCK_SELECTOR)) return;
+
+      const text = this.extractTextFromElement(paragraph);
+      if (text.length < MIN_PARAGRAPH_LENGTH || this.isInBoilerplate(paragraph) || !this.isElementVisible(paragraph)) return;
+
+      const score = 1 + (text.match(/[,，]/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+      let ancestor = paragraph.parentElement;
+      for (let level = 0; ancestor && level < SCORED_ANCESTORS; level++) {
+        if (!scores.has(ancestor)) {
+          scores.set(ancestor, this.getInitialScore(ancestor));
+        }
+        scores.set(ancestor, scores.get(ancestor)! + score / (level === 0 ? 1 : level === 1 ? 2 : level * 3));
+        if (ancestor === body) break;
+        ancestor = ancestor.parentElement;
+      }
+    });
+
+    // Link-heavy containers are menus and link lists, however much text they have
+    let topCandidate: Element | null = null;
+    let topScore = 0;
+    scores.forEach((score, candidate) => {
+      const finalScore = score * (1 - this.getLinkDensity(candidate));
+      if (finalScore > topScore) {
+        topCandidate = candidate;
+        topScore = finalScore;
+      }
+    });
+
+    // Text spread over the whole body has no container worth picking
+    return topCandidate === null || topCandidate === body ? null : topCandidate as HTMLElement;
+  }
+
+  private getInitialScore(element: Element): number {
+    let score = 0;
+    switch (element.tagName.toLowerCase()) {
+      case 'article':
+      case 'main':
+        score += 10;
+        break;
+      case 'div':
+        score += 5;
+        break;
+      case 'pre':
+      case 'td':
+      case 'blockquote':
+        score += 3;
+        break;
+      case 'address':
+      case 'ol':
+      case 'ul':
+      case 'dl':
+      case 'dd':
+      case 'dt':
+      case 'li':
+      case 'form':
+        score -= 3;
+        break;
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+      case 'th':
+        score -= 5;
+        break;
+    }
+    if (element.getAttribute('role') === 'main') {
+      score += 10;
+    }
+    return score + this.getClassWeight(element);
+  }
+
+  private getClassWeight(element: Element): number {
+    let weight = 0;
+    [element.getAttribute('class'), element.id].forEach((name) => {
+      if (!name) return;
+      if (NEGATIVE_NAMES.test(name)) weight -= 25;
+      if (POSITIVE_NAMES.test(name)) weight += 25;
+    });
+    return weight;
+  }
+
+  private getLinkDensity(element: Element): number {
+    const textLength = (element.textContent || '').trim().length;
+    if (textLength === 0) return 0;
+
+    const linkLength = Array.from(element.querySelectorAll('a'))
+      .reduce((length, link) => length + (link.textContent || '').trim().length, 0);
+    return Math.min(linkLength / textLength, 1);
+  }
+
+  private isBoilerplate(element: Element): boolean {
+    if (this.boilerplate.has(element)) {
+      return this.boilerplate.get(element)!;
+    }
+
+    const tagName = element.tagName.toLowerCase();
+    const names = `${element.getAttribute('class') || ''} ${element.id}`;
+    const boilerplate = BOILERPLATE_TAGS.includes(tagName) ||
+      BOILERPLATE_ROLES.includes(element.getAttribute('role') || '') ||
+      (tagName !== 'body' && tagName !== 'article' && tagName !== 'main' &&
+        UNLIKELY_CANDIDATES.test(names) && !MAYBE_CANDIDATE.test(names));
+    this.boilerplate.set(element, boilerplate);
+    return boilerplate;
+  }
+
+  private isInBoilerplate(element: Element): boolean {
+    for (let current: Element | null = element; current && current !== this.doc.body; current = current.parentElement) {
+      if (this.isBoilerplate(current)) return true;
+    }
+    return false;
+  }
+
+  private withoutBoilerplate(element: Element): Element {
+    // A copy of the content without share bars, navigation and hidden text; the page stays untouched
+    const copy = element.cloneNode(true) as Element;
+    const strip = (original: Element, copied: Element) => {
+      const copiedChildren = Array.from(copied.children);
+      Array.from(original.children).forEach((child, index) => {
+        const hiddenText = Boolean(child.textContent?.trim()) && !this.isElementVisible(child);
+        if (this.isBoilerplate(child) || hiddenText) {
+          copiedChildren[index].remove();
+        } else {
+          strip(child, copiedChildren[index]);
+        }
+      });
+    };
+    strip(element, copy);
+    return copy;
+  }
+
+  private extractAttachments(element: Element): Attachment[] | undefined {
+    // Figures and images with alt text are content, other images are mostly icons and spacers
+    const attachments = Array.from(element.querySelectorAll('img, video')).map(media => {
+      if (media.tagName.toLowerCase() === 'video') {
+        return this.createAttachment(media, 'video');
+      }
+
+      const figure = media.closest('figure');
+      if (!figure && !media.getAttribute('alt')?.trim()) return null;
+
+      const attachment = this.createAttachment(media, 'image');
+      const caption = figure?.querySelector('figcaption');
+      if (attachment && !attachment.alt && caption) {
+        attachment.alt = this.extractTextFromElement(caption) || undefined;
+      }
+      return attachment;
+    });
+    return this.uniqueAttachments(attachments);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,107 @@
+import { BaseExtractor } from './base.js';
+import { Content, ContentItem, ContentItemMetadata } from '../types.js';
+import { SITE_SELECTORS } from '../constants.js';
+
+// GitHub's eight reactions by the emoji the React issue viewer shows, named like the legacy aliases
+const REACTION_ALIASES: Record<string, string> = {
+  '👍': '+1', '👎': '-1', '😄': 'laugh', '🎉': 'hooray', '😕': 'confused', '❤': 'heart', '🚀': 'rocket', '👀': 'eyes'
+};
+
+export class GitHubExtractor extends BaseExtractor {
+  public async extract(): Promise<Content> {
+    const content: Content = {
+      pageURL: this.pageURL,
+      title: this.doc.title || 'GitHub',
+      items: []
+    };
+
+    const groupElements = this.doc.querySelectorAll(SITE_SELECTORS.GITHUB.COMMENT_GROUP) as NodeListOf<HTMLElement>;
+    const titleEl = this.doc.querySelector(SITE_SELECTORS.GITHUB.TITLE);
+    const title = titleEl ? this.extractTextFromElement(titleEl) : '';
+    const itemsByGroup = new Map<Element, ContentItem>();
+
+    groupElements.forEach((groupEl) => {
+      const bodyEl = groupEl.querySelector(SITE_SELECTORS.GITHUB.BODY);
+      // Minimized (hidden) comments keep their body in the page, collapsed
+      if (!bodyEl || !this.isElementVisible(bodyEl)) return;
+
+      // The issue, pull request or discussion itself opens the timeline, comments follow
+      const isOpening = groupEl.matches(SITE_SELECTORS.GITHUB.OPENING_BODY) || /^(issue|pullrequest|discussion)-\d+$/.test(groupEl.id);
+      const body = this.extractTextFromElement(bodyEl);
+      const textContent = isOpening ? [title, body].filter(Boolean).join('\n\n') : body;
+      if (!textContent) return;
+
+      const metadata = this.extractMetadata(groupEl);
+      const URL = this.getHref(groupEl.querySelector(SITE_SELECTORS.GITHUB.PERMALINK));
+      // Legacy groups are anchored by their id, React viewer comments only by their permalink
+      const anchor = groupEl.id || URL?.split('#')[1];
+      const item: ContentItem = {
+        id: this.createItemId(textContent, { nativeId: anchor ? `github:${anchor}` : null, author: metadata.author }),
+        element: groupEl,
+        URL,
+        textContent,
+        htmlContent: this.includeHtml ? bodyEl.innerHTML : undefined,
+        links: this.extractLinks(bodyEl),
+        type: isOpening ? 'post' : 'comment',
+        selected: false,
+        depth: isOpening ? 0 : undefined,
+        metadata: isOpening && title ? { ...metadata, title } : metadata
+      };
+      content.items.push(item);
+      itemsByGroup.set(groupEl, item);
+    });
+
+    this.ensureUniqueIds(content.items);
+
+    // Comments reply to the comment whose container they are nested in (threaded replies in
+    // Discussions), or else to the opening post
+    const opening = content.items.find(item => item.type === 'post');
+    itemsByGroup.forEach((item, groupEl) => {
+      if (item === opening) return;
+      let parentGroup = this.getParentGroup(groupEl);
+      while (parentGroup && !itemsByGroup.has(parentGroup)) {
+        parentGroup = this.getParentGroup(parentGroup);
+      }
+      const parent = parentGroup ? itemsByGroup.get(parentGroup)! : opening;
+      item.parentId = parent?.id;
+      item.depth = (parent?.depth ?? 0) + 1;
+    });
+    this.linkThread(content.items);
+
+    return content;
+  }
+
+  private getParentGroup(groupEl: Element): Element | null {
+    const container = groupEl.closest(SITE_SELECTORS.GITHUB.COMMENT_CONTAINER);
+    const parentContainer = container?.parentElement?.closest(SITE_SELECTORS.GITHUB.COMMENT_CONTAINER);
+    return parentContainer?.querySelector(SITE_SELECTORS.GITHUB.COMMENT_GROUP) || null;
+  }
+
+  private extractReactions(groupEl: Element): Record<string, number> | undefined {
+    // Each reaction button shows its emoji (<g-emoji alias="+1"> or the bare emoji) and how many reacted with it
+    const reactions: Record<string, number> = {};
+    groupEl.querySelectorAll(SITE_SELECTORS.GITHUB.REACTION).forEach(button => {
+      const text = button.textContent || '';
+      const alias = button.querySelector(SITE_SELECTORS.GITHUB.REACTION_EMOJI)?.getAttribute('alias');
+      const name = alias || Object.entries(REACTION_ALIASES).find(([emoji]) => text.includes(emoji))?.[1];
+      const count = this.parseCount(button.querySelector(SITE_SELECTORS.GITHUB.REACTION_COUNT)?.textContent ?? text);
+      if (name && count) {
+        reactions[name] = count;
+      }
+    });
+    return Object.keys(reactions).length > 0 ? reactions : undefined;
+  }
+
+  private extractMetadata(groupEl: Element): ContentItemMetadata {
+    const authorEl = groupEl.querySelector(SITE_SELECTORS.GITHUB.AUTHOR);
+    const container = groupEl.closest(SITE_SELECTORS.GITHUB.COMMENT_CONTAINER);
+
+    return {
+      author: authorEl?.textContent?.trim() || undefined,
+      authorUrl: this.getHref(authorEl),
+      createdAt: this.parseDate(groupEl.querySelector(SITE_SELECTORS.GITHUB.TIMESTAMP)?.getAttribute('datetime')),
+      reactions: this.extractReactions(groupEl),
+      isAnswer: container?.matches(SITE_SELECTORS.GITHUB.ANSWER) || undefined
+    };
+  }
+}
@@ -1,51 +1,86 @@
 import { BaseExtractor } from './base.js';
-import { Content, ContentItem } from '../types.js';
+import { Content, ContentItem, ContentItemMetadata, PageFetcher, ScraperOptions } from '../types.js';
 import { SITE_SELECTORS } from '../constants.js';
 
+export type HackerNewsOptions = Pick<ScraperOptions, 'followPagination' | 'pageFetcher' | 'maxPages'>;
+
 export class HackerNewsExtractor extends BaseExtractor {
+  // HTML of the following pages by URL, so watch mode does not fetch them again on every re-extraction
+  private pageCache = new Map<string, string>();
+
+  constructor(includeHtml: boolean, private options: HackerNewsOptions = {}) {
+    super(includeHtml);
+  }
+
   public async extract(): Promise<Content> {
     const content: Content = {
-      pageURL: window.location.href,
-      title: document.title || 'Hacker News',
+      pageURL: this.pageURL,
+      title: this.doc.title || 'Hacker News',
       items: []
     };
 
+    // Front page, /newest, /ask, /show...: one item per story instead of a thread
+    if (this.isListingPage()) {
+      this.extractListing(content);
+      if (this.options.followPagination) {
+        await this.appendFollowingPages(content, 'post');
+      }
+      this.ensureUniqueIds(content.items);
+      this.linkThread(content.items);
+      return content;
+    }
+
     // 1. Extract the main submission first
-    const mainPost = document.querySelector(SITE_SELECTORS.HACKER_NEWS.POST);
+    const mainPost = this.doc.querySelector(SITE_SELECTORS.HACKER_NEWS.POST);
     if (mainPost && this.isElementVisible(mainPost)) {
       // Text post - extract from .toptext
       const textContent = this.extractTextFromElement(mainPost);
-      const postUrlEl = document.querySelector(SITE_SELECTORS.HACKER_NEWS.POST_ID) as HTMLAnchorElement;
+      const postUrlEl = this.doc.querySelector(SITE_SELECTORS.HACKER_NEWS.POST_ID) as HTMLAnchorElement;
       
       if (textContent && textContent.length > 10) {
+        const metadata = this.extractMetadata(this.doc.querySelector(SITE_SELECTORS.HACKER_NEWS.SUBTEXT));
         const item: ContentItem = {
-          id: this.generateId(textContent),
+          id: this.createItemId(textContent, {
+            nativeId: this.getItemId(postUrlEl, this.doc.querySelector(SITE_SELECTORS.HACKER_NEWS.SUBMISSION)),
+            author: metadata?.author
+          }),
           element: mainPost as HTMLElement,
-          URL: postUrlEl?.href,
+          URL: this.getHref(postUrlEl),
           textContent,
           htmlContent: this.includeHtml ? mainPost.innerHTML : undefined,
+          links: this.extractLinks(mainPost),
           type: 'post',
-          selected: false
+          selected: false,
+          depth: 0,
+          metadata
         };
         content.items.push(item);
       }
     } else {
       // URL-only submission - extract from .titleline > a (find first visible one)
-      const titleLinkElements = document.querySelectorAll(SITE_SELECTORS.HACKER_NEWS.TITLE_LINK) as NodeListOf<HTMLAnchorElement>;
+      const titleLinkElements = this.doc.querySelectorAll(SITE_SELECTORS.HACKER_NEWS.TITLE_LINK) as NodeListOf<HTMLAnchorElement>;
       for (const titleLinkEl of titleLinkElements) {
         if (this.isElementVisible(titleLinkEl)) {
           const textContent = this.extractTextFromElement(titleLinkEl);
-          const postUrlEl = document.querySelector(SITE_SELECTORS.HACKER_NEWS.POST_ID) as HTMLAnchorElement;
+          const postUrlEl = this.doc.querySelector(SITE_SELECTORS.HACKER_NEWS.POST_ID) as HTMLAnchorElement;
           
           if (textContent) {
+            const storyEl = titleLinkEl.closest(SITE_SELECTORS.HACKER_NEWS.STORY_ITEM) as HTMLElement | null;
+            const metadata = this.extractMetadata(this.doc.querySelector(SITE_SELECTORS.HACKER_NEWS.SUBTEXT));
             const item: ContentItem = {
-              id: this.generateId(textContent),
-              element: titleLinkEl.closest('.athing') as HTMLElement || titleLinkEl,
-              URL: postUrlEl?.href,
+              id: this.createItemId(textContent, {
+                nativeId: this.getItemId(postUrlEl, storyEl),
+                author: metadata?.author
+              }),
+              element: storyEl || titleLinkEl,
+              URL: this.getHref(postUrlEl),
               textContent,
               htmlContent: this.includeHtml ? titleLinkEl.outerHTML : undefined,
               type: 'post',
-              selected: false
+              selected: false,
+              depth: 0,
+              metadata,
+              attachments: this.createLinkAttachment(titleLinkEl, textContent)
             };
             content.items.push(item);
             break; // Only extract the first visible title link
@@ -55,7 +90,7 @@ export class HackerNewsExtractor extends BaseExtractor {
     }
 
     // 2. Extract all comments
-    const commentElements = document.querySelectorAll(SITE_SELECTORS.HACKER_NEWS.COMMENT_TREE) as NodeListOf<HTMLElement>;
+    const commentElements = this.doc.querySelectorAll(SITE_SELECTORS.HACKER_NEWS.COMMENT_TREE) as NodeListOf<HTMLElement>;
     
     commentElements.forEach((commentEl) => {
       const commentContent = commentEl.querySelector(SITE_SELECTORS.HACKER_NEWS.COMMENTS);
@@ -64,20 +99,197 @@ export class HackerNewsExtractor extends BaseExtractor {
         const commentUrlEl = commentEl.querySelector(SITE_SELECTORS.HACKER_NEWS.COMMENT_ID) as HTMLAnchorElement;
         
         if (textContent && textContent.length > 10) {
+          const metadata = this.extractMetadata(commentEl.querySelector(SITE_SELECTORS.HACKER_NEWS.COMMENT_HEAD));
           const item: ContentItem = {
-            id: this.generateId(textContent),
+            id: this.createItemId(textContent, {
+              nativeId: this.getItemId(commentUrlEl, commentEl),
+              author: metadata?.author
+            }),
             element: commentEl,
-            URL: commentUrlEl?.href,
+            URL: this.getHref(commentUrlEl),
             textContent,
             htmlContent: this.includeHtml ? commentContent.innerHTML : undefined,
+            links: this.extractLinks(commentContent),
             type: 'comment',
-            selected: false
+            selected: false,
+            depth: this.getCommentDepth(commentEl),
+            metadata
           };
           content.items.push(item);
         }
       }
     });
 
+    // 3. Large threads continue on further pages behind the "More" link
+    if (this.options.followPagination) {
+      await this.appendFollowingPages(content, 'comment');
+    }
+
+    // 4. Rebuild the reply structure from the comment depths
+    this.ensureUniqueIds(content.items);
+    this.linkThread(content.items);
+
     return content;
   }
+
+  private isListingPage(): boolean {
+    // Discussion pages show their story in a .fatitem table, listings only have story rows
+    return !this.doc.querySelector(SITE_SELECTORS.HACKER_NEWS.FAT_ITEM) &&
+      this.doc.querySelector(SITE_SELECTORS.HACKER_NEWS.LISTING_STORY) !== null;
+  }
+
+  private extractListing(content: Content): void {
+    const storyRows = this.doc.querySelectorAll(SITE_SELECTORS.HACKER_NEWS.LISTING_STORY) as NodeListOf<HTMLElement>;
+
+    storyRows.forEach((storyRow) => {
+      const titleLinkEl = storyRow.querySelector(SITE_SELECTORS.HACKER_NEWS.TITLE_LINK);
+      if (!titleLinkEl || !this.isElementVisible(storyRow)) return;
+
+      const title = this.extractTextFromElement(titleLinkEl);
+      if (!title) return;
+
+      // Points, author, age and comments are in the row following the story
+      const subtext = storyRow.nextElementSibling?.querySelector(SITE_SELECTORS.HACKER_NEWS.SUBTEXT) || null;
+      const metadata = this.extractMetadata(subtext);
+      const nativeId = this.getItemId(null, storyRow);
+      content.items.push({
+        id: this.createItemId(title, { nativeId, author: metadata?.author }),
+        element: storyRow,
+        // Items link to their discussion, the story's own target is in metadata.linkUrl
+        URL: nativeId ? this.resolveUrl(`item?id=${storyRow.id}`) : undefined,
+        textContent: title,
+        htmlContent: this.includeHtml ? titleLinkEl.outerHTML : undefined,
+        type: 'post',
+        selected: false,
+        depth: 0,
+        metadata: {
+          ...metadata,
+          title,
+          linkUrl: this.getHref(titleLinkEl),
+          domain: storyRow.querySelector(SITE_SELECTORS.HACKER_NEWS.SITE_DOMAIN)?.textContent?.trim() || undefined
+        },
+        attachments: this.createLinkAttachment(titleLinkEl, title)
+      });
+    });
+  }
+
+  private async appendFollowingPages(content: Content, type: ContentItem['type']): Promise<void> {
+    const fetchPage = this.options.pageFetcher || ((url: string) => this.fetchSameOrigin(url));
+    const maxPages = this.options.maxPages ?? 10;
+    const visited = new Set([this.pageURL]);
+    let moreLink = this.doc.querySelector(SITE_SELECTORS.HACKER_NEWS.MORE_LINK);
+    let baseUrl = this.pageURL;
+
+    while (moreLink && visited.size < maxPages) {
+      const pageUrl = this.resolveUrl(moreLink.getAttribute('href'), baseUrl);
+      if (!pageUrl || visited.has(pageUrl)) break;
+      visited.add(pageUrl);
+
+      let page: Document;
+      let pageContent: Content;
+      try {
+        page = this.parseHtml(await this.loadPage(pageUrl, fetchPage));
+        // Pages are parsed documents without layout, extract them with a plain extractor
+        pageContent = await new HackerNewsExtractor(this.includeHtml).extractFrom(page, pageUrl);
+      } catch (error) {
+        // Keep the pages harvested so far, a failing page only ends the pagination
+        content.paginationError = { url: pageUrl, error };
+        break;
+      }
+
+      // Every thread page repeats the submission; comments are re-linked once all pages are merged
+      pageContent.items
+        .filter(item => item.type === type)
+        .forEach(item => {
+          item.parentId = undefined;
+          content.items.push(item);
+        });
+
+      moreLink = page.querySelector(SITE_SELECTORS.HACKER_NEWS.MORE_LINK);
+      baseUrl = pageUrl;
+    }
+  }
+
+  private async loadPage(url: string, fetchPage: PageFetcher): Promise<string> {
+    let html = this.pageCache.get(url);
+    if (html === undefined) {
+      // Failed fetches are not cached, the next extraction tries again
+      html = await fetchPage(url);
+      this.pageCache.set(url, html);
+    }
+    return html;
+  }
+
+  private async fetchSameOrigin(url: string): Promise<string> {
+    const origin = new URL(this.pageURL).origin;
+    if (new URL(url).origin !== origin) {
+      throw new Error(`Refusing to fetch ${url}: pages are only fetched from ${origin}`);
+    }
+
+    const response = await fetch(url, { credentials: 'same-origin' });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  private parseHtml(html: string): Document {
+    const Parser = this.doc.defaultView?.DOMParser || (typeof DOMParser !== 'undefined' ? DOMParser : undefined);
+    if (!Parser) {
+      throw new Error('Following pagination needs a DOMParser');
+    }
+    return new Parser().parseFromString(html, 'text/html');
+  }
+
+  protected getExpanders(): Element[] {
+    // The "[+]" toggles of collapsed comment threads
+    return Array.from(this.doc.querySelectorAll(SITE_SELECTORS.HACKER_NEWS.COLLAPSED_TOGGLE));
+  }
+
+  private getItemId(link: Element | null, row: Element | null): string | null {
+    // HN item ids appear in the "item?id=123" age links and as the id of the .athing rows
+    const href = link?.getAttribute('href');
+    const match = href?.match(/[?&]id=(\d+)/);
+    const id = match?.[1] || (row && /^\d+$/.test(row.id) ? row.id : null);
+    return id ? `hn:${id}` : null;
+  }
+
+  private extractMetadata(container: Element | null): ContentItemMetadata | undefined {
+    // Story subtext and comment heads share the same markup: .score, .hnuser and span.age
+    if (!container) return undefined;
+
+    const authorEl = container.querySelector(SITE_SELECTORS.HACKER_NEWS.AUTHOR) as HTMLAnchorElement | null;
+    const ageEl = container.querySelector(SITE_SELECTORS.HACKER_NEWS.AGE);
+    // span.age carries "2023-08-02T10:20:49 1690971649" (UTC time, then unix seconds) in its title
+    const [isoTime, unixTime] = (ageEl?.getAttribute('title') || '').split(' ');
+    const commentsLink = Array.from(container.querySelectorAll('a'))
+      .find(link => /\b(comments?|discuss)\b/.test(link.textContent || ''));
+
+    return {
+      author: authorEl?.textContent?.trim() || undefined,
+      authorUrl: this.getHref(authorEl),
+      createdAt: this.parseDate(unixTime) || this.parseDate(isoTime),
+      score: this.parseCount(container.querySelector(SITE_SELECTORS.HACKER_NEWS.SCORE)?.textContent),
+      replies: commentsLink ? this.parseCount(commentsLink.textContent) ?? 0 : undefined,
+      flags: this.extractFlags(container)
+    };
+  }
+
+  private extractFlags(container: Element): string[] | undefined {
+    // Moderated comments and stories carry "[flagged]" and/or "[dead]" in their header
+    const flags = Array.from((container.textContent || '').matchAll(/\[(flagged|dead)\]/g), match => match[1]);
+    return flags.length > 0 ? Array.from(new Set(flags)) : undefined;
+  }
+
+  private getCommentDepth(commentEl: HTMLElement): number {
+    // HN renders nesting as an indent level on the spacer cell; top-level comments have indent 0.
+    // Without the attribute, the spacer image is 40px wide per level
+    const indentCell = commentEl.querySelector(SITE_SELECTORS.HACKER_NEWS.COMMENT_INDENT);
+    let indent = parseInt(indentCell?.getAttribute('indent') || '', 10);
+    if (isNaN(indent)) {
+      const spacerWidth = parseInt(indentCell?.querySelector('img')?.getAttribute('width') || '0', 10);
+      indent = isNaN(spacerWidth) ? 0 : Math.round(spacerWidth / 40);
+    }
+    return indent + 1;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { BaseExtractor } from './base.js';
+import { Content, ContentItem, ContentItemMetadata } from '../types.js';
+import { SITE_SELECTORS } from '../constants.js';
+
+export class LobstersExtractor extends BaseExtractor {
+  public async extract(): Promise<Content> {
+    const content: Content = {
+      pageURL: this.pageURL,
+      title: this.doc.title || 'Lobsters',
+      items: []
+    };
+
+    // 1. Stories: the one being discussed on /s/ pages, every listed one on the front page and tag pages
+    const storyElements = this.doc.querySelectorAll(SITE_SELECTORS.LOBSTERS.STORY) as NodeListOf<HTMLElement>;
+    const isStoryPage = /\/s\/\w+/.test(new URL(this.pageURL).pathname);
+
+    storyElements.forEach((storyEl) => {
+      const titleLinkEl = storyEl.querySelector(SITE_SELECTORS.LOBSTERS.TITLE_LINK);
+      if (!titleLinkEl || !this.isElementVisible(storyEl)) return;
+
+      const title = this.extractTextFromElement(titleLinkEl);
+      if (!title) return;
+
+      // The text of a text story is rendered below the story on its own page only
+      const textEl = isStoryPage ? this.doc.querySelector(SITE_SELECTORS.LOBSTERS.STORY_TEXT) : null;
+      const body = textEl && this.isElementVisible(textEl) ? this.extractTextFromElement(textEl) : '';
+      const textContent = [title, body].filter(Boolean).join('\n\n');
+      const shortId = storyEl.getAttribute('data-shortid');
+      const metadata = this.extractMetadata(storyEl);
+
+      content.items.push({
+        id: this.createItemId(textContent, { nativeId: shortId ? `lobsters:${shortId}` : null, author: metadata.author }),
+        element: storyEl,
+        // The story's comment page, the submitted link itself is kept in metadata.linkUrl
+        URL: this.getHref(storyEl.querySelector(SITE_SELECTORS.LOBSTERS.COMMENTS_LINK)) ||
+             (shortId ? this.resolveUrl(`/s/${shortId}`) : undefined),
+        textContent,
+        htmlContent: this.includeHtml ? (body ? textEl!.innerHTML : titleLinkEl.outerHTML) : undefined,
+        links: body ? this.extractLinks(textEl!) : undefined,
+        type: 'post',
+        selected: false,
+        depth: 0,
+        metadata: {
+          ...metadata,
+          title,
+          linkUrl: this.getHref(titleLinkEl),
+          domain: storyEl.querySelector(SITE_SELECTORS.LOBSTERS.DOMAIN)?.textContent?.trim() || undefined,
+          tags: this.extractTags(storyEl)
+        },
+        attachments: this.createLinkAttachment(titleLinkEl, title)
+      });
+    });
+
+    // 2. Comments, replies are nested in the .comments_subtree of the comment they answer
+    const commentElements = this.doc.querySelectorAll(SITE_SELECTORS.LOBSTERS.COMMENT) as NodeListOf<HTMLElement>;
+    const commentsByElement = new Map<Element, ContentItem>();
+
+    commentElements.forEach((commentEl) => {
+      const textEl = commentEl.querySelector(SITE_SELECTORS.LOBSTERS.COMMENT_TEXT);
+      if (!textEl || !this.isElementVisible(textEl)) return;
+
+      const textContent = this.extractTextFromElement(textEl);
+      if (!textContent || textContent.length <= 5) return;
+
+      const shortId = commentEl.getAttribute('data-shortid');
+      const metadata = this.extractMetadata(commentEl);
+      const item: ContentItem = {
+        id: this.createItemId(textContent, { nativeId: shortId ? `lobsters:c_${shortId}` : null, author: metadata.author }),
+        element: commentEl,
+        URL: this.getHref(commentEl.querySelector(SITE_SELECTORS.LOBSTERS.COMMENT_PERMALINK)) ||
+             (shortId ? this.resolveUrl(`/c/${shortId}`) : undefined),
+        textContent,
+        htmlContent: this.includeHtml ? textEl.innerHTML : undefined,
+        links: this.extractLinks(textEl),
+        type: 'comment',
+        selected: false,
+        depth: this.getCommentDepth(commentEl),
+        metadata
+      };
+      content.items.push(item);
+      commentsByElement.set(commentEl, item);
+    });
+
+    this.ensureUniqueIds(content.items);
+
+    // 3. Comments reply to the closest extracted comment around them, top-level ones to the story
+    const posts = content.items.filter(item => item.type === 'post');
+    const rootPost = posts.length === 1 ? posts[0] : undefined;
+    commentsByElement.forEach((item, commentEl) => {
+      let ancestor = this.getParentComment(commentEl);
+      while (ancestor && !commentsByElement.has(ancestor)) {
+        ancestor = this.getParentComment(ancestor);
+      }
+      item.parentId = ancestor ? commentsByElement.get(ancestor)!.id : rootPost?.id;
+    });
+    this.linkThread(content.items);
+
+    return content;
+  }
+
+  private getParentComment(commentEl: Element): Element | null {
+    // A comment and its replies share a .comments_subtree; the parent's subtree is the next one up
+    const subtree = commentEl.closest(SITE_SELECTORS.LOBSTERS.COMMENT_TREE);
+    const parentTree = subtree?.parentElement?.closest(SITE_SELECTORS.LOBSTERS.COMMENT_TREE);
+    return parentTree ? Array.from(parentTree.children).find(child => child.matches(SITE_SELECTORS.LOBSTERS.COMMENT)) || null : null;
+  }
+
+  private getCommentDepth(commentEl: Element): number {
+    let depth = 1;
+    let ancestor = this.getParentComment(commentEl);
+    while (ancestor) {
+      depth++;
+      ancestor = this.getParentComment(ancestor);
+    }
+    return depth;
+  }
+
+  private extractTags(storyEl: Element): string[] | undefined {
+    const tags = Array.from(storyEl.querySelectorAll(SITE_SELECTORS.LOBSTERS.TAG))
+      .map(tag => tag.textContent?.trim())
+      .filter((tag): tag is string => Boolean(tag));
+    return tags.length > 0 ? tags : undefined;
+  }
+
+  private extractMetadata(container: Element): ContentItemMetadata {
+    // Stories and comments share the byline markup and the vote column
+    const byline = container.querySelector(SITE_SELECTORS.LOBSTERS.BYLINE);
+    const userLink = Array.from(byline?.querySelectorAll(SITE_SELECTORS.LOBSTERS.USER_LINK) || [])
+      .find(link => link.textContent?.trim());
+    const commentsLink = container.querySelector(SITE_SELECTORS.LOBSTERS.COMMENTS_LINK);
+    // Timestamps read "2024-01-02 03:04:05 -0600"
+    const datetime = byline?.querySelector(SITE_SELECTORS.LOBSTERS.TIMESTAMP)?.getAttribute('datetime');
+
+    return {
+      author: userLink?.textContent?.trim(),
+      authorUrl: this.getHref(userLink),
+      createdAt: this.parseDate(datetime?.replace(/^(\S+) (\S+) /, '$1T$2')),
+      score: this.parseCount(container.querySelector(SITE_SELECTORS.LOBSTERS.SCORE)?.textContent),
+      // Stories without comments read "discuss"
+      replies: commentsLink ? this.parseCount(commentsLink.textContent) ?? 0 : undefined
+    };
+  }
+}
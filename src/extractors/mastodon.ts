@@ -0,0 +1,124 @@
+import { BaseExtractor } from './base.js';
+import { Attachment, Content, ContentItem, ContentItemMetadata } from '../types.js';
+import { SITE_SELECTORS } from '../constants.js';
+
+export class MastodonExtractor extends BaseExtractor {
+  public async extract(): Promise<Content> {
+    const content: Content = {
+      pageURL: this.pageURL,
+      title: this.doc.title || 'Mastodon',
+      items: []
+    };
+
+    const statusElements = this.doc.querySelectorAll(SITE_SELECTORS.MASTODON.STATUS) as NodeListOf<HTMLElement>;
+    let focal: ContentItem | undefined;
+
+    statusElements.forEach((statusEl) => {
+      if (!this.isElementVisible(statusEl)) return;
+
+      const item = this.createStatusItem(statusEl);
+      if (item) {
+        content.items.push(item);
+        if (statusEl.matches(SITE_SELECTORS.MASTODON.FOCAL_STATUS)) {
+          focal = item;
+        }
+      }
+    });
+
+    this.ensureUniqueIds(content.items);
+    if (focal) {
+      this.reconstructThread(content.items, focal);
+    }
+    this.linkThread(content.items);
+
+    return content;
+  }
+
+  protected getExpanders(): Element[] {
+    // "Show more" on statuses behind a content warning; the same button collapses them again
+    return Array.from(this.doc.querySelectorAll(SITE_SELECTORS.MASTODON.SPOILER_BUTTON))
+      .filter(button => !button.closest(SITE_SELECTORS.MASTODON.CONTENT)?.querySelector(SITE_SELECTORS.MASTODON.VISIBLE_CONTENT));
+  }
+
+  private createStatusItem(statusEl: HTMLElement): ContentItem | null {
+    // The text is in the markup even while a content warning hides it
+    const contentEl = statusEl.querySelector(SITE_SELECTORS.MASTODON.CONTENT_TEXT) ||
+                      statusEl.querySelector(SITE_SELECTORS.MASTODON.CONTENT);
+    const textContent = contentEl ? this.extractTextFromElement(contentEl) : '';
+    const attachments = this.extractAttachments(statusEl);
+    if (!textContent && !attachments) return null;
+
+    const metadata = this.extractMetadata(statusEl);
+    const permalink = statusEl.querySelector(SITE_SELECTORS.MASTODON.PERMALINK);
+    return {
+      id: this.createItemId(textContent, { nativeId: this.getStatusId(statusEl, permalink), author: metadata.author }),
+      element: statusEl,
+      URL: this.getHref(permalink) || (statusEl.matches(SITE_SELECTORS.MASTODON.FOCAL_STATUS) ? this.pageURL : undefined),
+      textContent,
+      htmlContent: this.includeHtml && contentEl ? contentEl.innerHTML : undefined,
+      links: contentEl ? this.extractLinks(contentEl) : undefined,
+      type: 'post',
+      selected: false,
+      depth: 0,
+      metadata,
+      attachments
+    };
+  }
+
+  private getStatusId(statusEl: Element, permalink: Element | null): string | null {
+    // Timeline statuses carry their id; the focal status is the one in the page URL (/@user/123)
+    const statusId = statusEl.getAttribute('data-id') ||
+      (statusEl.matches(SITE_SELECTORS.MASTODON.FOCAL_STATUS) ? this.pageURL.match(/\/(\d+)\/?(?:[?#]|$)/)?.[1] : null) ||
+      permalink?.getAttribute('href')?.match(/\/(\d+)\/?$/)?.[1];
+    return statusId ? `mastodon:${statusId}` : null;
+  }
+
+  private extractAttachments(statusEl: Element): Attachment[] | undefined {
+    // Gallery thumbnails link to the full-size image
+    const images = Array.from(statusEl.querySelectorAll(`${SITE_SELECTORS.MASTODON.MEDIA_THUMBNAIL} img`))
+      .map(img => {
+        const attachment = this.createAttachment(img, 'image');
+        const original = this.getHref(img.closest(SITE_SELECTORS.MASTODON.MEDIA_THUMBNAIL));
+        return attachment && original ? { ...attachment, src: original } : attachment;
+      });
+    const videos = Array.from(statusEl.querySelectorAll(SITE_SELECTORS.MASTODON.MEDIA_VIDEO))
+      .map(video => this.createAttachment(video, 'video'));
+    const cards = Array.from(statusEl.querySelectorAll(SITE_SELECTORS.MASTODON.CARD))
+      .map(card => this.createCardAttachment(card));
+    return this.uniqueAttachments([...images, ...videos, ...cards]);
+  }
+
+  private createCardAttachment(card: Element): Attachment | null {
+    const link = card.matches('a[href]') ? card : card.querySelector('a[href]');
+    const src = this.getHref(link);
+    if (!src) return null;
+
+    const title = card.querySelector(SITE_SELECTORS.MASTODON.CARD_TITLE);
+    const image = card.querySelector(SITE_SELECTORS.MASTODON.CARD_IMAGE);
+    return {
+      kind: 'link',
+      src,
+      alt: title ? this.extractTextFromElement(title) || undefined : undefined,
+      poster: image ? this.createAttachment(image)?.src : undefined
+    };
+  }
+
+  private extractMetadata(statusEl: Element): ContentItemMetadata {
+    const account = statusEl.querySelector(SITE_SELECTORS.MASTODON.ACCOUNT)?.textContent?.trim().replace(/^@/, '');
+    const warning = statusEl.querySelector(SITE_SELECTORS.MASTODON.CONTENT_WARNING);
+    // The focal status spells out its boost and favourite counts; the action bar of other
+    // statuses has reply, boost and favourite buttons, in that order, with optional counters
+    const buttons = Array.from(statusEl.querySelector(SITE_SELECTORS.MASTODON.ACTION_BAR)?.querySelectorAll('button') || []);
+    const counter = (index: number) => this.parseCount(buttons[index]?.querySelector(SITE_SELECTORS.MASTODON.ACTION_COUNTER)?.textContent);
+
+    return {
+      author: account || undefined,
+      authorUrl: this.getHref(statusEl.querySelector(SITE_SELECTORS.MASTODON.ACCOUNT_LINK)),
+      createdAt: this.parseDate(statusEl.querySelector(SITE_SELECTORS.MASTODON.TIMESTAMP)?.getAttribute('datetime')),
+      replies: counter(0),
+      reposts: this.parseCount(statusEl.querySelector(SITE_SELECTORS.MASTODON.REBLOGS)?.textContent) ?? counter(1),
+      likes: this.parseCount(statusEl.querySelector(SITE_SELECTORS.MASTODON.FAVOURITES)?.textContent) ?? counter(2),
+      contentWarning: warning ? this.extractTextFromElement(warning) || undefined : undefined
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import { RedditExtractor } from './reddit.js';
+import { Content, ContentItem, ContentItemMetadata } from '../types.js';
+import { SITE_SELECTORS } from '../constants.js';
+
+export class OldRedditExtractor extends RedditExtractor {
+  public async extract(): Promise<Content> {
+    const content: Content = {
+      pageURL: this.pageURL,
+      title: this.doc.title || 'Reddit',
+      items: []
+    };
+
+    // 1. The submission, a link post's title optionally followed by its self text
+    const postElements = this.doc.querySelectorAll(SITE_SELECTORS.OLD_REDDIT.POST) as NodeListOf<HTMLElement>;
+
+    postElements.forEach((postEl) => {
+      const entry = this.getEntry(postEl);
+      const titleEl = entry?.querySelector(SITE_SELECTORS.OLD_REDDIT.TITLE_LINK);
+      const bodyEl = entry?.querySelector(SITE_SELECTORS.OLD_REDDIT.BODY);
+
+      if (!entry || !this.isElementVisible(entry)) return;
+
+      const title = titleEl ? this.extractTextFromElement(titleEl) : '';
+      const body = bodyEl && this.isElementVisible(bodyEl) ? this.extractTextFromElement(bodyEl) : '';
+      const textContent = [title, body].filter(Boolean).join('\n\n');
+
+      if (textContent && textContent.length > 5) {
+        const metadata = this.extractMetadata(postEl, entry);
+        const item: ContentItem = {
+          id: this.createItemId(textContent, {
+            nativeId: this.getThingId(postEl.getAttribute('data-fullname')),
+            author: metadata.author
+          }),
+          element: postEl,
+          textContent,
+          htmlContent: this.includeHtml ? (body ? bodyEl!.innerHTML : titleEl?.outerHTML) : undefined,
+          links: body ? this.extractLinks(bodyEl!) : undefined,
+          type: 'post',
+          URL: this.getThingPermalink(postEl, entry),
+          selected: false,
+          depth: 0,
+          metadata: {
+            ...metadata,
+            replies: this.parseCount(postEl.getAttribute('data-comments-count'))
+          }
+        };
+        content.items.push(item);
+      }
+    });
+
+    // 2. Comments, replies are nested in the .child container of the comment they answer
+    const commentElements = this.doc.querySelectorAll(SITE_SELECTORS.OLD_REDDIT.COMMENTS) as NodeListOf<HTMLElement>;
+    const commentsByThing = new Map<Element, ContentItem>();
+
+    commentElements.forEach((commentEl) => {
+      const entry = this.getEntry(commentEl);
+      const bodyEl = entry?.querySelector(SITE_SELECTORS.OLD_REDDIT.BODY);
+
+      if (!entry || !bodyEl || !this.isElementVisible(bodyEl)) return;
+
+      const textContent = this.extractTextFromElement(bodyEl);
+      if (textContent && textContent.length > 5) {
+        const metadata = this.extractMetadata(commentEl, entry);
+        const item: ContentItem = {
+          id: this.createItemId(textContent, {
+            nativeId: this.getThingId(commentEl.getAttribute('data-fullname')),
+            author: metadata.author
+          }),
+          element: commentEl,
+          textContent,
+          htmlContent: this.includeHtml ? bodyEl.innerHTML : undefined,
+          links: this.extractLinks(bodyEl),
+          type: 'comment',
+          URL: this.getThingPermalink(commentEl, entry),
+          selected: false,
+          depth: this.getThingDepth(commentEl),
+          metadata
+        };
+        content.items.push(item);
+        commentsByThing.set(commentEl, item);
+      }
+    });
+
+    this.ensureUniqueIds(content.items);
+
+    // 3. Comments reply to the closest extracted comment around them, top-level ones to the post
+    const rootPost = content.items.find(item => item.type === 'post');
+    commentsByThing.forEach((item, commentEl) => {
+      let ancestor = this.getParentComment(commentEl);
+      while (ancestor && !commentsByThing.has(ancestor)) {
+        ancestor = this.getParentComment(ancestor);
+      }
+      item.parentId = ancestor ? commentsByThing.get(ancestor)!.id : rootPost?.id;
+    });
+    this.linkThread(content.items);
+
+    return content;
+  }
+
+  protected getExpanders(): Element[] {
+    return [
+      ...Array.from(this.doc.querySelectorAll(SITE_SELECTORS.OLD_REDDIT.COLLAPSED_TOGGLE)),
+      ...Array.from(this.doc.querySelectorAll(SITE_SELECTORS.OLD_REDDIT.MORE_COMMENTS))
+    ];
+  }
+
+  private getEntry(thing: Element): Element | null {
+    // Only the thing's own entry, replies in .child have entries of their own
+    return Array.from(thing.children).find(child => child.matches(SITE_SELECTORS.OLD_REDDIT.ENTRY)) || null;
+  }
+
+  private getParentComment(commentEl: Element): Element | null {
+    const child = commentEl.parentElement?.closest(SITE_SELECTORS.OLD_REDDIT.CHILD);
+    return child?.parentElement?.closest(SITE_SELECTORS.OLD_REDDIT.COMMENT_THING) || null;
+  }
+
+  private getThingDepth(commentEl: Element): number {
+    let depth = 1;
+    let ancestor = this.getParentComment(commentEl);
+    while (ancestor) {
+      depth++;
+      ancestor = this.getParentComment(ancestor);
+    }
+    return depth;
+  }
+
+  private getThingPermalink(thing: Element, entry: Element): string | undefined {
+    const permalink = thing.getAttribute('data-permalink');
+    if (permalink) {
+      return this.resolveUrl(permalink);
+    }
+    return this.getHref(entry.querySelector(SITE_SELECTORS.OLD_REDDIT.PERMALINK));
+  }
+
+  private extractMetadata(thing: Element, entry: Element): ContentItemMetadata {
+    const tagline = entry.querySelector(SITE_SELECTORS.OLD_REDDIT.TAGLINE);
+    const author = thing.getAttribute('data-author') || tagline?.querySelector(SITE_SELECTORS.OLD_REDDIT.AUTHOR)?.textContent?.trim();
+    // Comments show their score in the tagline, submissions in the vote column next to the entry
+    const voteColumn = Array.from(thing.children).find(child => child.matches(SITE_SELECTORS.OLD_REDDIT.VOTE_COLUMN));
+    const scoreEl = tagline?.querySelector(SITE_SELECTORS.OLD_REDDIT.SCORE) ||
+                    voteColumn?.querySelector(SITE_SELECTORS.OLD_REDDIT.SCORE);
+
+    return {
+      ...this.extractAuthor(author),
+      createdAt: this.parseDate(tagline?.querySelector(SITE_SELECTORS.OLD_REDDIT.TIMESTAMP)?.getAttribute('datetime')),
+      score: this.parseCount(scoreEl?.getAttribute('title') || scoreEl?.textContent || thing.getAttribute('data-score'))
+    };
+  }
+}
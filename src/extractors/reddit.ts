@@ -1,59 +1,320 @@
 import { BaseExtractor } from './base.js';
-import { Content, ContentItem } from '../types.js';
+import { Attachment, Content, ContentItem, ContentItemMetadata } from '../types.js';
 import { SITE_SELECTORS } from '../constants.js';
 
 export class RedditExtractor extends BaseExtractor {
   public async extract(): Promise<Content> {
     const content: Content = {
-      pageURL: window.location.href,
-      title: document.title || 'Reddit',
+      pageURL: this.pageURL,
+      title: this.doc.title || 'Reddit',
       items: []
     };
 
+    if (this.isListingPage()) {
+      this.extractListing(content);
+      this.ensureUniqueIds(content.items);
+      this.linkThread(content.items);
+      return content;
+    }
+
     // Use the correct Reddit comment selector from constants
-    let commentElements = document.querySelectorAll(SITE_SELECTORS.REDDIT.COMMENTS) as NodeListOf<HTMLElement>;
+    let commentElements = this.doc.querySelectorAll(SITE_SELECTORS.REDDIT.COMMENTS) as NodeListOf<HTMLElement>;
+    // Comment items keyed by their shreddit-comment host, used to rebuild the nesting
+    const commentsByHost = new Map<Element, ContentItem>();
 
     commentElements.forEach((commentEl) => {
       if (this.isElementVisible(commentEl)) {
         const textContent = this.extractTextFromElement(commentEl);
         
         if (textContent && textContent.length > 5) {
+          const host = commentEl.closest(SITE_SELECTORS.REDDIT.COMMENT_HOST);
+          const meta = this.getCommentMeta(commentEl);
+          const metadata = this.extractCommentMetadata(host, meta);
           const item: ContentItem = {
-            id: this.generateId(textContent),
+            id: this.createItemId(textContent, {
+              nativeId: this.getThingId(host?.getAttribute('thingid')),
+              author: metadata?.author
+            }),
             element: commentEl,
             textContent,
             htmlContent: this.includeHtml ? commentEl.innerHTML : undefined,
+            links: this.extractLinks(commentEl),
             type: 'comment',
-            URL: (document.querySelector(SITE_SELECTORS.REDDIT.COMMENT_ID) as HTMLAnchorElement)?.href,
-            selected: false
+            URL: this.getPermalink(host, meta),
+            selected: false,
+            depth: this.getCommentDepth(host),
+            metadata
           };
           content.items.push(item);
+          if (host) {
+            commentsByHost.set(host, item);
+          }
         }
       }
     });
 
     // Also extract posts (both posts and comments should be available for selection)
-    let postElements = document.querySelectorAll(SITE_SELECTORS.REDDIT.POST) as NodeListOf<HTMLElement>;
+    let postElements = this.doc.querySelectorAll(SITE_SELECTORS.REDDIT.POST) as NodeListOf<HTMLElement>;
+    const extractedPosts = new Set<Element>();
 
     postElements.forEach((postEl) => {
       if (this.isElementVisible(postEl)) {
         const textContent = this.extractTextFromElement(postEl);
         
         if (textContent && textContent.length > 5) {
+          const host = postEl.closest(SITE_SELECTORS.REDDIT.POST_HOST) || this.doc.querySelector(SITE_SELECTORS.REDDIT.POST_HOST);
+          const metadata = this.extractPostMetadata(host);
           const item: ContentItem = {
-            id: this.generateId(textContent),
+            id: this.createItemId(textContent, {
+              nativeId: this.getThingId(host?.id),
+              author: metadata?.author
+            }),
             element: postEl,
             textContent,
             htmlContent: this.includeHtml ? postEl.innerHTML : undefined,
+            links: this.extractLinks(postEl),
             type: 'post',
-            URL: window.location.href,
-            selected: false
+            URL: this.pageURL,
+            selected: false,
+            depth: 0,
+            metadata,
+            attachments: this.extractAttachments(host)
           };
           content.items.push(item);
+          if (host) {
+            extractedPosts.add(host);
+          }
         }
       }
     });
 
+    // Link, image, gallery, video and poll posts have no text body, their title stands in for it
+    const postHosts = this.doc.querySelectorAll(SITE_SELECTORS.REDDIT.POST_HOST) as NodeListOf<HTMLElement>;
+
+    postHosts.forEach((host) => {
+      if (extractedPosts.has(host) || !this.isElementVisible(host)) return;
+
+      const metadata = this.extractPostMetadata(host)!;
+      if (!metadata.title) return;
+
+      content.items.push({
+        id: this.createItemId(metadata.title, { nativeId: this.getThingId(host.id), author: metadata.author }),
+        element: host,
+        textContent: metadata.title,
+        htmlContent: this.includeHtml ? host.querySelector(SITE_SELECTORS.REDDIT.POST_TITLE)?.outerHTML : undefined,
+        type: 'post',
+        URL: this.pageURL,
+        selected: false,
+        depth: 0,
+        metadata,
+        attachments: this.extractAttachments(host)
+      });
+    });
+
+    this.ensureUniqueIds(content.items);
+
+    // Comments reply to the comment named by their parentid, else to the closest extracted
+    // comment around them; top-level ones reply to the post
+    const rootPost = content.items.find(item => item.type === 'post');
+    const itemIds = new Set(content.items.map(item => item.id));
+    content.items.filter(item => item.type === 'comment').forEach(item => {
+      const host = item.element.closest(SITE_SELECTORS.REDDIT.COMMENT_HOST);
+      const parentId = this.getThingId(host?.getAttribute('parentid'));
+      if (parentId && itemIds.has(parentId)) {
+        item.parentId = parentId;
+        return;
+      }
+
+      let ancestor = host?.parentElement?.closest(SITE_SELECTORS.REDDIT.COMMENT_HOST);
+      while (ancestor && !commentsByHost.has(ancestor)) {
+        ancestor = ancestor.parentElement?.closest(SITE_SELECTORS.REDDIT.COMMENT_HOST);
+      }
+      item.parentId = ancestor ? commentsByHost.get(ancestor)!.id : rootPost?.id;
+    });
+    this.linkThread(content.items);
+
     return content;
   }
+
+  protected getExpanders(): Element[] {
+    return Array.from(this.doc.querySelectorAll(SITE_SELECTORS.REDDIT.MORE_REPLIES));
+  }
+
+  private isListingPage(): boolean {
+    // Subreddit feeds, search results and profiles list posts; discussions live under /comments/
+    return !/\/comments\//.test(this.pageURL) &&
+      this.doc.querySelector(SITE_SELECTORS.REDDIT.POST_HOST) !== null;
+  }
+
+  private extractListing(content: Content): void {
+    const postHosts = this.doc.querySelectorAll(SITE_SELECTORS.REDDIT.POST_HOST) as NodeListOf<HTMLElement>;
+
+    postHosts.forEach((host) => {
+      if (!this.isElementVisible(host)) return;
+
+      const metadata = this.extractPostMetadata(host)!;
+      if (!metadata.title) return;
+
+      const titleEl = host.querySelector(SITE_SELECTORS.REDDIT.POST_TITLE);
+      const permalink = host.getAttribute('permalink');
+      content.items.push({
+        id: this.createItemId(metadata.title, { nativeId: this.getThingId(host.id), author: metadata.author }),
+        element: host,
+        URL: permalink ? this.resolveUrl(permalink) : this.getHref(titleEl),
+        textContent: metadata.title,
+        htmlContent: this.includeHtml ? titleEl?.outerHTML : undefined,
+        type: 'post',
+        selected: false,
+        depth: 0,
+        metadata,
+        attachments: this.extractAttachments(host)
+      });
+    });
+  }
+
+  protected getThingId(thingId: string | null | undefined): string | null {
+    // Reddit "things" are identified by fullnames: t1_ for comments, t3_ for posts. Old Reddit
+    // uses the same ids, so selections carry over between the two
+    return thingId && /^t\d_\w+$/.test(thingId) ? `reddit:${thingId}` : null;
+  }
+
+  private getCommentMeta(commentEl: Element): Element | null {
+    // A comment's meta slot precedes its body within the same shreddit-comment; stop at the
+    // previous comment body so a reply never borrows the meta of the comment before it
+    let sibling = commentEl.previousElementSibling;
+    while (sibling && !sibling.matches(SITE_SELECTORS.REDDIT.COMMENTS)) {
+      if (sibling.matches(SITE_SELECTORS.REDDIT.COMMENT_META)) {
+        return sibling;
+      }
+      sibling = sibling.previousElementSibling;
+    }
+    return null;
+  }
+
+  private getPermalink(host: Element | null, meta: Element | null): string | undefined {
+    const permalink = host?.getAttribute('permalink');
+    if (permalink) {
+      return this.resolveUrl(permalink);
+    }
+    // The timestamp in the meta slot links to the comment itself
+    return this.getHref(meta?.querySelector(SITE_SELECTORS.REDDIT.COMMENT_ID) || null);
+  }
+
+  private extractCommentMetadata(host: Element | null, meta: Element | null): ContentItemMetadata | undefined {
+    if (!host) return undefined;
+
+    // Only look at this comment's own meta slot, nested replies carry their own timestamps
+    const timestamp = meta?.querySelector(SITE_SELECTORS.REDDIT.TIMESTAMP);
+
+    return {
+      ...this.extractAuthor(host.getAttribute('author')),
+      createdAt: this.parseDate(timestamp?.getAttribute('ts')),
+      score: this.parseCount(host.getAttribute('score'))
+    };
+  }
+
+  private extractPostMetadata(host: Element | null): ContentItemMetadata | undefined {
+    if (!host) return undefined;
+
+    const linkUrl = this.getOutboundLink(host);
+    const mediaUrls = (this.extractAttachments(host) || [])
+      .filter(attachment => attachment.kind !== 'link')
+      .map(attachment => attachment.src);
+    const pollOptions = Array.from(host.querySelectorAll(SITE_SELECTORS.REDDIT.POLL_OPTION))
+      .map(option => this.extractTextFromElement(option))
+      .filter(Boolean);
+
+    return {
+      title: this.getPostTitle(host),
+      linkUrl,
+      domain: linkUrl ? host.getAttribute('domain') || new URL(linkUrl).hostname : undefined,
+      mediaUrls: mediaUrls.length > 0 ? mediaUrls : undefined,
+      pollOptions: pollOptions.length > 0 ? pollOptions : undefined,
+      ...this.extractAuthor(host.getAttribute('author')),
+      createdAt: this.parseDate(host.getAttribute('created-timestamp')),
+      score: this.parseCount(host.getAttribute('score')),
+      replies: this.parseCount(host.getAttribute('comment-count')),
+      subreddit: this.getSubreddit(host),
+      flair: host.querySelector(SITE_SELECTORS.REDDIT.POST_FLAIR)?.textContent?.trim() || undefined
+    };
+  }
+
+  private getOutboundLink(host: Element): string | undefined {
+    // content-href points at the discussion for self posts and at i.redd.it/v.redd.it for
+    // media posts; only links leaving Reddit are outbound
+    const linkUrl = this.resolveUrl(host.getAttribute('content-href'));
+    if (!linkUrl || /(^|\.)(reddit\.com|redd\.it)$/.test(new URL(linkUrl).hostname)) {
+      return undefined;
+    }
+    return linkUrl;
+  }
+
+  private extractAttachments(host: Element | null): Attachment[] | undefined {
+    if (!host) return undefined;
+
+    // Gallery images load lazily, createAttachment picks up their data-lazy-src
+    const media = host.querySelector(SITE_SELECTORS.REDDIT.POST_MEDIA);
+    const images = Array.from(media?.querySelectorAll('img') || []).map(img => this.createAttachment(img, 'image'));
+    const videos = Array.from(host.querySelectorAll(SITE_SELECTORS.REDDIT.POST_VIDEO))
+      .map(player => this.createAttachment(player, 'video'));
+    const attachments: (Attachment | null)[] = [...images, ...videos];
+
+    // Image posts without rendered media still name the image in content-href
+    const imageUrl = this.resolveUrl(host.getAttribute('content-href'));
+    if (!attachments.some(Boolean) && host.getAttribute('post-type') === 'image' && imageUrl) {
+      attachments.push({ kind: 'image', src: imageUrl });
+    }
+
+    const linkUrl = this.getOutboundLink(host);
+    if (linkUrl) {
+      const thumbnail = host.querySelector(SITE_SELECTORS.REDDIT.POST_THUMBNAIL);
+      attachments.push({
+        kind: 'link',
+        src: linkUrl,
+        alt: this.getPostTitle(host),
+        poster: thumbnail ? this.createAttachment(thumbnail)?.src : undefined
+      });
+    }
+    return this.uniqueAttachments(attachments);
+  }
+
+  private getPostTitle(host: Element): string | undefined {
+    const titleEl = host.querySelector(SITE_SELECTORS.REDDIT.POST_TITLE);
+    return host.getAttribute('post-title')?.trim() || (titleEl ? this.extractTextFromElement(titleEl) : undefined) || undefined;
+  }
+
+  private getSubreddit(host: Element): string | undefined {
+    const prefixedName = host.getAttribute('subreddit-prefixed-name');
+    if (prefixedName) return prefixedName;
+    const name = host.getAttribute('subreddit-name');
+    return name ? `r/${name}` : undefined;
+  }
+
+  protected extractAuthor(author: string | null | undefined): ContentItemMetadata {
+    // Deleted accounts are reported as "[deleted]" and have no profile
+    if (!author || author === '[deleted]') {
+      return { author: author || undefined };
+    }
+    return {
+      author,
+      authorUrl: this.resolveUrl(`/user/${encodeURIComponent(author)}/`)
+    };
+  }
+
+  private getCommentDepth(host: Element | null): number {
+    // shreddit reports depth 0 for top-level comments, the post itself sits at depth 0 here
+    const depthAttribute = parseInt(host?.getAttribute('depth') || '', 10);
+    if (!isNaN(depthAttribute)) {
+      return depthAttribute + 1;
+    }
+
+    // Otherwise count the parent shreddit-comment elements replies are nested in
+    let depth = 1;
+    let ancestor = host?.parentElement?.closest(SITE_SELECTORS.REDDIT.COMMENT_HOST);
+    while (ancestor) {
+      depth++;
+      ancestor = ancestor.parentElement?.closest(SITE_SELECTORS.REDDIT.COMMENT_HOST);
+    }
+    return depth;
+  }
 }
\ No newline at end of file
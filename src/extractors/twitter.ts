@@ -1,12 +1,12 @@
 import { BaseExtractor } from './base.js';
-import { Content, ContentItem } from '../types.js';
+import { Attachment, Content, ContentItem, ContentItemMetadata } from '../types.js';
 import { SITE_SELECTORS } from '../constants.js';
 
 export class TwitterExtractor extends BaseExtractor {
   public async extract(): Promise<Content> {
     const content: Content = {
-      pageURL: window.location.href,
-      title: document.title || 'Twitter/X',
+      pageURL: this.pageURL,
+      title: this.doc.title || 'Twitter/X',
       items: []
     };
 
@@ -22,50 +22,48 @@ export class TwitterExtractor extends BaseExtractor {
     let tweetElements: HTMLElement[] = [];
 
     for (const selector of tweetSelectors) {
-      const elements = document.querySelectorAll(selector) as NodeListOf<HTMLElement>;
+      const elements = this.doc.querySelectorAll(selector) as NodeListOf<HTMLElement>;
       if (elements.length > 0) {
         tweetElements = Array.from(elements);
         break;
       }
     }
 
+    // Quoted tweets keyed by the item of the tweet quoting them
+    const quotedBy = new Map<ContentItem, ContentItem>();
+
     tweetElements.forEach((tweetEl) => {
       if (this.isElementVisible(tweetEl)) {
-        // Try to find the text content within the tweet
-        let textElement = tweetEl.querySelector(SITE_SELECTORS.TWITTER.TWEET) || 
-                         tweetEl.querySelector('.tweet-text') ||
-                         tweetEl;
-
-        const textContent = this.extractTextFromElement(textElement);
-        
-        if (textContent && textContent.length > 5) {
-          const item: ContentItem = {
-            id: this.generateId(textContent),
-            element: tweetEl,
-            textContent,
-            htmlContent: this.includeHtml ? tweetEl.innerHTML : undefined,
-            type: 'post',
-            selected: false
-          };
+        const article = tweetEl.closest(SITE_SELECTORS.TWITTER.TWEET_ARTICLE);
+        const item = this.createTweetItem(tweetEl, article || tweetEl);
+
+        if (item) {
           content.items.push(item);
+          if (article) {
+            this.extractQuotedTweets(article).forEach(quote => {
+              content.items.push(quote);
+              quotedBy.set(quote, item);
+            });
+          }
         }
       }
     });
 
     // If no tweets found with specific selectors, try a more general approach
     if (content.items.length === 0) {
-      const articleElements = document.querySelectorAll('article') as NodeListOf<HTMLElement>;
-      
+      const articleElements = this.doc.querySelectorAll('article') as NodeListOf<HTMLElement>;
+
       articleElements.forEach((articleEl) => {
         if (this.isElementVisible(articleEl)) {
           const textContent = this.extractTextFromElement(articleEl);
-          
+
           if (textContent && textContent.length > 20 && textContent.length < 2000) {
             const item: ContentItem = {
-              id: this.generateId(textContent),
+              id: this.createItemId(textContent, { nativeId: this.getStatusId(articleEl) }),
               element: articleEl,
               textContent,
               htmlContent: this.includeHtml ? articleEl.innerHTML : undefined,
+              links: this.extractLinks(articleEl),
               type: 'post',
               selected: false
             };
@@ -75,6 +73,143 @@ export class TwitterExtractor extends BaseExtractor {
       });
     }
 
+    this.ensureUniqueIds(content.items);
+
+    this.reconstructConversation(content.items.filter(item => !quotedBy.has(item)));
+    // Quoted tweets are embedded in the tweet quoting them, one level below it
+    quotedBy.forEach((quoting, quote) => {
+      quote.parentId = quoting.id;
+      quote.depth = quoting.depth! + 1;
+    });
+    this.linkThread(content.items);
+
     return content;
   }
-}
\ No newline at end of file
+
+  protected getExpanders(): Element[] {
+    // "Show more" on truncated tweets and the button revealing replies hidden as probable spam
+    const spamButtons = Array.from(this.doc.querySelectorAll(SITE_SELECTORS.TWITTER.SPAM_BUTTON))
+      .filter(button => button.textContent?.trim() === SITE_SELECTORS.TWITTER.SPAM_BUTTON_TEXT);
+    return [
+      ...Array.from(this.doc.querySelectorAll(SITE_SELECTORS.TWITTER.SHOW_MORE_BUTTON)),
+      ...spamButtons
+    ];
+  }
+
+  private createTweetItem(tweetEl: Element, container: Element): ContentItem | null {
+    // Try to find the text content within the tweet, leaving out any tweet it quotes
+    const textElement = this.queryOwn(container, SITE_SELECTORS.TWITTER.TWEET, SITE_SELECTORS.TWITTER.QUOTED_TWEET) ||
+                        tweetEl.querySelector('.tweet-text') ||
+                        tweetEl;
+
+    const textContent = this.extractTextFromElement(textElement);
+    if (!textContent || textContent.length <= 5) {
+      return null;
+    }
+
+    const metadata = this.extractMetadata(container);
+    return {
+      id: this.createItemId(textContent, { nativeId: this.getStatusId(container), author: metadata.author }),
+      element: tweetEl as HTMLElement,
+      textContent,
+      htmlContent: this.includeHtml ? tweetEl.innerHTML : undefined,
+      links: this.extractLinks(textElement),
+      type: 'post',
+      URL: this.getHref(this.getStatusLink(container)),
+      selected: false,
+      depth: container.matches(SITE_SELECTORS.TWITTER.TWEET_ARTICLE) ? 0 : undefined,
+      metadata,
+      attachments: this.extractAttachments(container)
+    };
+  }
+
+  private extractAttachments(tweetEl: Element): Attachment[] | undefined {
+    // Videos are rendered inside the photo wrapper too, their <img> elements are only thumbnails
+    const photos = this.queryAllOwn(tweetEl, `${SITE_SELECTORS.TWITTER.PHOTO} img`, SITE_SELECTORS.TWITTER.QUOTED_TWEET)
+      .filter(img => !img.closest(SITE_SELECTORS.TWITTER.VIDEO_PLAYER))
+      .map(img => this.createAttachment(img, 'image'));
+    const videos = this.queryAllOwn(tweetEl, `${SITE_SELECTORS.TWITTER.VIDEO_PLAYER} video`, SITE_SELECTORS.TWITTER.QUOTED_TWEET)
+      .map(video => this.createAttachment(video, 'video'));
+    const cards = this.queryAllOwn(tweetEl, SITE_SELECTORS.TWITTER.CARD, SITE_SELECTORS.TWITTER.QUOTED_TWEET)
+      .map(card => this.createCardAttachment(card));
+    return this.uniqueAttachments([...photos, ...videos, ...cards]);
+  }
+
+  private createCardAttachment(card: Element): Attachment | null {
+    // Link cards wrap a t.co link; its aria-label reads "domain.com Title of the page"
+    const link = card.querySelector('a[href]');
+    const src = this.getHref(link);
+    if (!src) return null;
+
+    const image = card.querySelector('img');
+    return {
+      kind: 'link',
+      src,
+      alt: link?.getAttribute('aria-label')?.trim() || this.extractTextFromElement(card) || undefined,
+      poster: image ? this.createAttachment(image)?.src : undefined
+    };
+  }
+
+  private extractQuotedTweets(article: Element): ContentItem[] {
+    // Quoted tweets are clickable cards with an author header of their own
+    return Array.from(article.querySelectorAll(SITE_SELECTORS.TWITTER.QUOTED_TWEET))
+      .filter(quoteEl => quoteEl.querySelector(SITE_SELECTORS.TWITTER.USER_NAME_GROUP) && this.isElementVisible(quoteEl))
+      .map(quoteEl => this.createTweetItem(quoteEl, quoteEl))
+      .filter((quote): quote is ContentItem => quote !== null);
+  }
+
+  private reconstructConversation(tweets: ContentItem[]): void {
+    // On a /status/ page the focal tweet is the one in the URL, below the tweets it replies to.
+    // Tweets right after it by the same author continue it as a self-thread and share its place
+    // in the conversation; the thread root is the post, every other tweet a reply
+    const focalId = this.pageURL.match(/\/status\/(\d+)/)?.[1];
+    const focalIndex = tweets.findIndex(tweet => tweet.id === `twitter:${focalId}`);
+    if (focalIndex === -1) return;
+
+    const focal = tweets[focalIndex];
+    const author = focal.metadata?.author;
+    let end = focalIndex;
+    while (author && end + 1 < tweets.length && tweets[end + 1].metadata?.author === author) {
+      end++;
+    }
+    const continuations = tweets.slice(focalIndex + 1, end + 1);
+
+    this.reconstructThread(tweets.filter(tweet => !continuations.includes(tweet)), focal);
+    continuations.forEach(tweet => {
+      tweet.type = focal.type;
+      tweet.depth = focal.depth;
+      tweet.parentId = focal.parentId;
+    });
+  }
+
+  private getStatusLink(tweetEl: Element): Element | null {
+    // The timestamp links to the tweet itself; other status links may point at quoted tweets
+    return this.queryOwn(tweetEl, SITE_SELECTORS.TWITTER.TIMESTAMP, SITE_SELECTORS.TWITTER.QUOTED_TWEET)?.closest(SITE_SELECTORS.TWITTER.STATUS_LINK) ||
+           this.queryOwn(tweetEl, SITE_SELECTORS.TWITTER.STATUS_LINK, SITE_SELECTORS.TWITTER.QUOTED_TWEET);
+  }
+
+  private getStatusId(tweetEl: Element): string | null {
+    const statusId = this.getStatusLink(tweetEl)?.getAttribute('href')?.match(/\/status\/(\d+)/)?.[1];
+    return statusId ? `twitter:${statusId}` : null;
+  }
+
+  private extractMetadata(tweetEl: Element): ContentItemMetadata {
+    const userLink = this.queryOwn(tweetEl, SITE_SELECTORS.TWITTER.USER_NAME, SITE_SELECTORS.TWITTER.QUOTED_TWEET) as HTMLAnchorElement | null;
+    // The profile link is "/handle"; the first path segment is the handle. Quoted tweets
+    // have no profile link, only the "@handle" text
+    const linkedHandle = userLink?.getAttribute('href')?.split('/').filter(Boolean)[0];
+    const handle = linkedHandle ||
+                   this.queryOwn(tweetEl, SITE_SELECTORS.TWITTER.USER_NAME_GROUP, SITE_SELECTORS.TWITTER.QUOTED_TWEET)?.textContent?.match(/@(\w+)/)?.[1];
+    const likeButton = this.queryOwn(tweetEl, SITE_SELECTORS.TWITTER.LIKE_BUTTON, SITE_SELECTORS.TWITTER.QUOTED_TWEET);
+    const replyButton = this.queryOwn(tweetEl, SITE_SELECTORS.TWITTER.REPLY_BUTTON, SITE_SELECTORS.TWITTER.QUOTED_TWEET);
+
+    return {
+      author: handle,
+      authorUrl: linkedHandle ? this.getHref(userLink) : handle ? this.resolveUrl(`/${handle}`) : undefined,
+      createdAt: this.parseDate(this.queryOwn(tweetEl, SITE_SELECTORS.TWITTER.TIMESTAMP, SITE_SELECTORS.TWITTER.QUOTED_TWEET)?.getAttribute('datetime')),
+      // Action buttons expose exact counts in aria-label ("1234 Likes. Like"), the visible text is abbreviated
+      likes: this.parseCount(likeButton?.getAttribute('aria-label') || likeButton?.textContent),
+      replies: this.parseCount(replyButton?.getAttribute('aria-label') || replyButton?.textContent)
+    };
+  }
+}
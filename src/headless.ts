@@ -0,0 +1,32 @@
+import { Content, ScraperOptions } from './types.js';
+import { ExtractFromOptions } from './extractors/base.js';
+import { extractorRegistry } from './registry.js';
+
+export interface HeadlessOptions extends ScraperOptions, ExtractFromOptions {
+  // Used by extractFromHtml when there is no global DOMParser (e.g. `new Window().DOMParser` from happy-dom)
+  parser?: Pick<DOMParser, 'parseFromString'>;
+}
+
+/**
+ * Extracts content from an explicit document instead of the live page, e.g. a saved
+ * page loaded in happy-dom/jsdom, a same-origin iframe or a parsed HTML response.
+ * The extractor is picked by the registry from the given URL, as ContentScraper does.
+ */
+export async function extractFrom(doc: Document, url: string, options: HeadlessOptions = {}): Promise<Content> {
+  const registry = options.registry || extractorRegistry;
+  const extractor = registry.createExtractor(url, options, doc);
+  return extractor.extractFrom(doc, url, options);
+}
+
+/**
+ * Parses an HTML string and extracts its content as if it had been served from url.
+ */
+export async function extractFromHtml(html: string, url: string, options: HeadlessOptions = {}): Promise<Content> {
+  const parser = options.parser || (typeof DOMParser !== 'undefined' ? new DOMParser() : null);
+  if (!parser) {
+    throw new Error('extractFromHtml needs a DOMParser: pass options.parser when running without a DOM');
+  }
+
+  const doc = parser.parseFromString(html, 'text/html');
+  return extractFrom(doc, url, options);
+}
@@ -1,10 +1,7 @@
 import { UIManager } from './ui-manager.js';
 import { BaseExtractor } from './extractors/base.js';
-import { Content, ScraperOptions } from './types.js';
-import { GenericExtractor } from './extractors/generic.js';
-import { HackerNewsExtractor } from './extractors/hackernews.js';
-import { RedditExtractor } from './extractors/reddit.js';
-import { TwitterExtractor } from './extractors/twitter.js';
+import { Content, ContentItem, ScraperOptions } from './types.js';
+import { extractorRegistry } from './registry.js';
 
 export class ContentScraper {
   private extractor: BaseExtractor;
@@ -12,21 +9,17 @@ export class ContentScraper {
   private content: Content | null = null;
   private eventEmitter = new EventTarget();
   private options: ScraperOptions;
+  private observer: MutationObserver | null = null;
+  private watchTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchExtraction: Promise<void> | null = null;
+  private watchPending = false;
 
   constructor(options: ScraperOptions = {}) {
     this.options = options;
-    // Detect the current site from window.location.href
+    // Detect the current site from window.location.href and let the registry pick the extractor
     const url = window.location.href;
-    
-    if (url.includes('news.ycombinator.com')) {
-      this.extractor = new HackerNewsExtractor(options.includeHtml || false);
-    } else if (url.includes('reddit.com')) {
-      this.extractor = new RedditExtractor(options.includeHtml || false);
-    } else if (url.includes('twitter.com') || url.includes('x.com')) {
-      this.extractor = new TwitterExtractor(options.includeHtml || false);
-    } else {
-      this.extractor = new GenericExtractor(options.includeHtml || false);
-    }
+    const registry = options.registry || extractorRegistry;
+    this.extractor = registry.createExtractor(url, options);
 
     // Instantiate the UIManager with custom styling from options
     this.uiManager = new UIManager(options.checkboxStyling);
@@ -49,19 +42,37 @@ export class ContentScraper {
 
   public async run(): Promise<void> {
     try {
+      // Reveal collapsed and truncated content first when asked to
+      const expanded = this.options.expand ? await this.expand() : undefined;
+
       // Call extractor to get the initial content
       this.content = await this.extractor.extract();
+      if (expanded !== undefined) {
+        this.content.expanded = expanded;
+      }
       
       // If content has items and showCheckboxes is enabled, display checkboxes
       if (this.content && this.content.items.length > 0 && this.options.showCheckboxes) {
         this.uiManager.displayCheckboxes(this.content.items);
       }
+
+      if (this.options.watch) {
+        this.startWatching();
+      }
     } catch (error) {
       console.error('ContentScraper error:', error);
       throw error;
     }
   }
 
+  public async expand(): Promise<number> {
+    // Click the site's expanders and wait for the page to settle, returns the number of clicks
+    return this.extractor.expand({
+      timeout: this.options.expandTimeout,
+      settleTime: this.options.expandSettleTime
+    });
+  }
+
   public displayCheckboxes(): void {
     // Public method to display checkboxes regardless of the showCheckboxes option
     if (this.content && this.content.items.length > 0) {
@@ -69,13 +80,107 @@ export class ContentScraper {
     }
   }
 
+  public startWatching(): void {
+    // Observe the page and extract items loaded later on (infinite scroll, expanded threads)
+    if (this.observer) return;
+
+    this.observer = new MutationObserver((records) => {
+      // Ignore the mutations caused by our own checkboxes
+      const isOwnMutation = (record: MutationRecord) => {
+        const nodes = [...Array.from(record.addedNodes), ...Array.from(record.removedNodes)];
+        return this.uiManager.isCheckboxElement(record.target) ||
+          (nodes.length > 0 && nodes.every(node => this.uiManager.isCheckboxElement(node)));
+      };
+      if (records.some(record => !isOwnMutation(record))) {
+        this.scheduleWatchExtraction();
+      }
+    });
+    this.observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+  }
+
+  public stopWatching(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    if (this.watchTimer !== null) {
+      clearTimeout(this.watchTimer);
+      this.watchTimer = null;
+    }
+    this.watchPending = false;
+  }
+
+  public isWatching(): boolean {
+    return this.observer !== null;
+  }
+
+  private scheduleWatchExtraction(): void {
+    if (this.watchTimer !== null) {
+      clearTimeout(this.watchTimer);
+    }
+    this.watchTimer = setTimeout(() => {
+      this.watchTimer = null;
+      if (this.watchExtraction) {
+        // An extraction is running, run once more when it is done
+        this.watchPending = true;
+        return;
+      }
+      this.watchExtraction = this.extractAddedItems()
+        .catch(error => console.error('ContentScraper watch error:', error))
+        .finally(() => {
+          this.watchExtraction = null;
+          if (this.watchPending && this.observer) {
+            this.watchPending = false;
+            this.scheduleWatchExtraction();
+          }
+        });
+    }, this.options.watchDebounce ?? 300);
+  }
+
+  private async extractAddedItems(): Promise<void> {
+    const extracted = await this.extractor.extract();
+    if (!this.content || !this.observer) return;
+
+    const itemsById = new Map(this.content.items.map(item => [item.id, item]));
+    const added: ContentItem[] = [];
+    let insertAt = 0;
+
+    // Items that scrolled out of a virtualized list stay in the content; new ones are inserted
+    // after the closest known item that precedes them in the page
+    extracted.items.forEach(item => {
+      const known = itemsById.get(item.id);
+      if (known) {
+        insertAt = this.content!.items.indexOf(known) + 1;
+        return;
+      }
+      this.content!.items.splice(insertAt++, 0, item);
+      itemsById.set(item.id, item);
+      added.push(item);
+    });
+
+    if (added.length === 0) return;
+
+    // Keep the reply structure of the merged content consistent
+    added.forEach(item => {
+      const parent = item.parentId !== undefined ? itemsById.get(item.parentId) : undefined;
+      if (parent && !parent.childIds?.includes(item.id)) {
+        parent.childIds = [...(parent.childIds || []), item.id];
+      }
+    });
+
+    if (this.uiManager.hasCheckboxes()) {
+      this.uiManager.addCheckboxes(added);
+    }
+
+    this.eventEmitter.dispatchEvent(new CustomEvent('itemsAdded', {
+      detail: added
+    }));
+  }
+
   public getContent(): Content | null {
     // Return a deep copy of the currently selected content
     if (!this.content) return null;
     
     return {
-      pageURL: this.content.pageURL,
-      title: this.content.title,
+      ...this.content,
       items: this.content.items.map(item => ({
         ...item,
         // Note: element references can't be deep copied
@@ -84,14 +189,17 @@ export class ContentScraper {
     };
   }
 
-  public on(eventName: 'selectionChanged', callback: (content: Content) => void): void {
+  public on(eventName: 'selectionChanged', callback: (content: Content) => void): void;
+  public on(eventName: 'itemsAdded', callback: (items: ContentItem[]) => void): void;
+  public on(eventName: 'selectionChanged' | 'itemsAdded', callback: (detail: any) => void): void {
     this.eventEmitter.addEventListener(eventName, (event: any) => {
       callback(event.detail);
     });
   }
 
   public destroy(): void {
-    // Clean up: remove UI, remove event listeners
+    // Clean up: stop watching, remove UI, remove event listeners
+    this.stopWatching();
     this.uiManager.destroy();
     this.content = null;
   }
@@ -100,4 +208,18 @@ export class ContentScraper {
 // Export types and constants for consumers
 export * from './types.js';
 export * from './extractors/base.js';
+export * from './extractors/generic.js';
+export * from './extractors/hackernews.js';
+export * from './extractors/reddit.js';
+export * from './extractors/oldreddit.js';
+export * from './extractors/twitter.js';
+export * from './extractors/lobsters.js';
+export * from './extractors/mastodon.js';
+export * from './extractors/bluesky.js';
+export * from './extractors/discourse.js';
+export * from './extractors/github.js';
+export * from './registry.js';
+export * from './tree.js';
+export * from './headless.js';
+export * from './serializers/markdown.js';
 export * from './constants.js';
\ No newline at end of file
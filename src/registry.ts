@@ -0,0 +1,158 @@
+import { BaseExtractor } from './extractors/base.js';
+import { ScraperOptions } from './types.js';
+import { GenericExtractor } from './extractors/generic.js';
+import { HackerNewsExtractor } from './extractors/hackernews.js';
+import { RedditExtractor } from './extractors/reddit.js';
+import { OldRedditExtractor } from './extractors/oldreddit.js';
+import { TwitterExtractor } from './extractors/twitter.js';
+import { LobstersExtractor } from './extractors/lobsters.js';
+import { MastodonExtractor } from './extractors/mastodon.js';
+import { BlueskyExtractor } from './extractors/bluesky.js';
+import { DiscourseExtractor } from './extractors/discourse.js';
+import { GitHubExtractor } from './extractors/github.js';
+import { SITE_SELECTORS } from './constants.js';
+
+export type ExtractorFactory = (options: ScraperOptions) => BaseExtractor;
+
+export type ExtractorPredicate = (url: string, document: Document) => boolean;
+
+export interface ExtractorRegistration {
+  name: string; // Unique name, registering the same name again replaces the entry
+  create: ExtractorFactory;
+  hostnames?: string[]; // Matches the hostname itself and any of its subdomains
+  patterns?: RegExp[]; // Tested against the full page URL
+  test?: ExtractorPredicate; // Custom detection logic
+  priority?: number; // Higher priorities are consulted first (default: 0)
+}
+
+interface RegistryEntry extends ExtractorRegistration {
+  priority: number;
+  order: number;
+}
+
+export class ExtractorRegistry {
+  private entries = new Map<string, RegistryEntry>();
+  private registrations = 0;
+
+  public register(registration: ExtractorRegistration): this {
+    if (!registration.hostnames?.length && !registration.patterns?.length && !registration.test) {
+      throw new Error(`Extractor "${registration.name}" needs at least one hostname, pattern or test`);
+    }
+
+    this.entries.set(registration.name, {
+      ...registration,
+      priority: registration.priority ?? 0,
+      order: this.registrations++
+    });
+    return this;
+  }
+
+  public unregister(name: string): boolean {
+    return this.entries.delete(name);
+  }
+
+  public has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  public list(): ExtractorRegistration[] {
+    // Ordered the way resolve() consults them: by priority, then most recently registered first
+    return Array.from(this.entries.values())
+      .sort((a, b) => b.priority - a.priority || b.order - a.order)
+      .map(({ order, ...registration }) => registration);
+  }
+
+  public resolve(url: string, doc: Document = document): ExtractorRegistration | null {
+    const hostname = this.getHostname(url);
+    return this.list().find(registration => this.matches(registration, url, hostname, doc)) || null;
+  }
+
+  public createExtractor(url: string, options: ScraperOptions = {}, doc: Document = document): BaseExtractor {
+    const registration = this.resolve(url, doc);
+    if (!registration) {
+      throw new Error(`No extractor registered for ${url}`);
+    }
+    return registration.create(options);
+  }
+
+  private matches(registration: ExtractorRegistration, url: string, hostname: string, doc: Document): boolean {
+    if (hostname && registration.hostnames?.some(host => hostname === host || hostname.endsWith(`.${host}`))) {
+      return true;
+    }
+    if (registration.patterns?.some(pattern => pattern.test(url))) {
+      return true;
+    }
+    return registration.test ? registration.test(url, doc) : false;
+  }
+
+  private getHostname(url: string): string {
+    try {
+      return new URL(url).hostname.toLowerCase();
+    } catch (error) {
+      return '';
+    }
+  }
+}
+
+export function createDefaultRegistry(): ExtractorRegistry {
+  return new ExtractorRegistry()
+    .register({
+      name: 'generic',
+      create: (options) => new GenericExtractor(options.includeHtml || false),
+      test: () => true,
+      priority: Number.NEGATIVE_INFINITY
+    })
+    .register({
+      name: 'hackernews',
+      create: (options) => new HackerNewsExtractor(options.includeHtml || false, options),
+      hostnames: ['news.ycombinator.com']
+    })
+    .register({
+      name: 'reddit',
+      create: (options) => new RedditExtractor(options.includeHtml || false),
+      hostnames: ['reddit.com']
+    })
+    .register({
+      name: 'old-reddit',
+      create: (options) => new OldRedditExtractor(options.includeHtml || false),
+      hostnames: ['old.reddit.com'],
+      // Consulted before 'reddit', which matches every reddit.com subdomain
+      priority: 1
+    })
+    .register({
+      name: 'twitter',
+      create: (options) => new TwitterExtractor(options.includeHtml || false),
+      hostnames: ['twitter.com', 'x.com']
+    })
+    .register({
+      name: 'lobsters',
+      create: (options) => new LobstersExtractor(options.includeHtml || false),
+      hostnames: ['lobste.rs']
+    })
+    .register({
+      name: 'mastodon',
+      create: (options) => new MastodonExtractor(options.includeHtml || false),
+      // Instances run on their own domains, so the page is recognized by the web app's markup
+      test: (url, doc) => doc.querySelector(SITE_SELECTORS.MASTODON.PAGE_MARKER) !== null
+    })
+    .register({
+      name: 'bluesky',
+      create: (options) => new BlueskyExtractor(options.includeHtml || false),
+      hostnames: ['bsky.app']
+    })
+    .register({
+      name: 'discourse',
+      create: (options) => new DiscourseExtractor(options.includeHtml || false),
+      // Forums run on their own domains, recognized by the generator tag or the topic markup
+      test: (url, doc) => doc.querySelector(SITE_SELECTORS.DISCOURSE.PAGE_MARKER) !== null
+    })
+    .register({
+      name: 'github',
+      create: (options) => new GitHubExtractor(options.includeHtml || false),
+      // Only conversations, the rest of github.com is left to the generic extractor
+      patterns: [/^https:\/\/github\.com\/[^/]+\/[^/]+\/(issues|pull|discussions)\/\d+/]
+    });
+}
+
+// Registry consulted by ContentScraper unless ScraperOptions.registry is given
+export const extractorRegistry = createDefaultRegistry();
@@ -0,0 +1,328 @@
+import { Attachment, Content, ContentItem, ContentTreeNode } from '../types.js';
+import { buildContentTree } from '../tree.js';
+
+export interface HtmlToMarkdownOptions {
+  // Used when there is no global DOMParser (e.g. `new Window().DOMParser` from happy-dom)
+  parser?: Pick<DOMParser, 'parseFromString'>;
+  // Parses the HTML with this document's DOM implementation when there is no parser either
+  document?: Document;
+}
+
+export interface MarkdownOptions {
+  selectedOnly?: boolean; // Only serialize items with selected: true
+  nesting?: 'blockquote' | 'list'; // How replies are nested under their parents (default: blockquote)
+  includeTitle?: boolean; // Start with a heading linking to the page (default: true)
+  parser?: Pick<DOMParser, 'parseFromString'>; // Converts htmlContent without a global DOMParser (default: the item's document)
+}
+
+// Node.nodeType values, spelled out so conversion does not depend on DOM globals
+const TEXT_NODE = 3;
+const ELEMENT_NODE = 1;
+
+// Placeholder for <br>, turned into a hard break once inline whitespace has been collapsed
+const LINE_BREAK = '\u0000';
+
+const SKIPPED_TAGS = ['script', 'style', 'noscript', 'svg', 'canvas', 'template', 'button'];
+
+const BLOCK_TAGS = [
+  'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav',
+  'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul'
+];
+
+/**
+ * Serializes extracted content to Markdown. Replies are nested under the item they
+ * answer, using parentId, and every item gets an author/time/link header when known.
+ * Attachments follow the item's text as images and links. Without a global DOMParser,
+ * HTML content is parsed with options.parser or else the document of the item's element.
+ */
+export function toMarkdown(content: Content, options: MarkdownOptions = {}): string {
+  const items = options.selectedOnly ? content.items.filter(item => item.selected) : content.items;
+  const tree = buildContentTree({ ...content, items });
+  const sections: string[] = [];
+
+  if (options.includeTitle !== false) {
+    sections.push(`# ${link(escapeMarkdown(content.title), content.pageURL)}`);
+  }
+
+  const renderNode = (node: ContentTreeNode, level: number) => {
+    sections.push(options.nesting === 'list'
+      ? renderListItem(node.item, level, content.pageURL, options)
+      : renderQuotedItem(node.item, level, content.pageURL, options));
+    node.children.forEach(child => renderNode(child, level + 1));
+  };
+  tree.forEach(root => renderNode(root, 0));
+
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * Converts an HTML fragment to Markdown: links, emphasis, code, blockquotes, lists,
+ * headings and images. Relative URLs are resolved against baseUrl when given.
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string, options: HtmlToMarkdownOptions = {}): string {
+  const body = parseBody(html, options);
+  if (!body) {
+    // Without a DOM implementation, fall back to the text with tags stripped
+    return escapeMarkdown(html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim());
+  }
+
+  return convertBlocks(body, baseUrl).join('\n\n');
+}
+
+function parseBody(html: string, options: HtmlToMarkdownOptions): HTMLElement | null {
+  const parser = options.parser || (typeof DOMParser !== 'undefined' ? new DOMParser() : null);
+  if (parser) {
+    return parser.parseFromString(`<body>${html}</body>`, 'text/html').body;
+  }
+  if (options.document) {
+    // Documents created this way are inert: their scripts do not run and their images do not load
+    const parsed = options.document.implementation.createHTMLDocument('');
+    parsed.body.innerHTML = html;
+    return parsed.body;
+  }
+  return null;
+}
+
+function renderItemBody(item: ContentItem, baseUrl: string, options: MarkdownOptions): string {
+  const header = renderHeader(item);
+  const body = item.htmlContent !== undefined
+    ? htmlToMarkdown(item.htmlContent, item.URL || baseUrl, { parser: options.parser, document: item.element?.ownerDocument })
+    : escapeLineStart(escapeMarkdown(item.textContent || ''));
+  // Images already converted from the item's HTML are not repeated
+  const attachments = (item.attachments || [])
+    .filter(attachment => !body.includes(`(${encodeUrl(attachment.src)})`))
+    .map(renderAttachment);
+  return [header, body, ...attachments].filter(Boolean).join('\n\n');
+}
+
+function renderAttachment(attachment: Attachment): string {
+  const alt = escapeMarkdown(attachment.alt || '');
+  switch (attachment.kind) {
+    case 'image':
+      return `![${alt}](${encodeUrl(attachment.src)})`;
+    case 'video':
+      // Markdown has no video syntax, link to the video through its poster when there is one
+      return attachment.poster
+        ? link(`![${alt || 'Video'}](${encodeUrl(attachment.poster)})`, attachment.src)
+        : link(alt || 'Video', attachment.src);
+    case 'link':
+      return link(alt || escapeMarkdown(attachment.src), attachment.src);
+  }
+}
+
+function renderHeader(item: ContentItem): string {
+  const parts: string[] = [];
+  const metadata = item.metadata;
+
+  if (metadata?.author) {
+    parts.push(`**${link(escapeMarkdown(metadata.author), metadata.authorUrl)}**`);
+  }
+  if (metadata?.createdAt) {
+    // "2023-08-02T10:20:49.000Z" -> "2023-08-02 10:20 UTC"
+    parts.push(`${metadata.createdAt.slice(0, 10)} ${metadata.createdAt.slice(11, 16)} UTC`);
+  }
+  if (item.URL) {
+    parts.push(link('link', item.URL));
+  }
+
+  return parts.join(' · ');
+}
+
+function renderQuotedItem(item: ContentItem, level: number, baseUrl: string, options: MarkdownOptions): string {
+  return prefixLines(renderItemBody(item, baseUrl, options), '> '.repeat(level));
+}
+
+function renderListItem(item: ContentItem, level: number, baseUrl: string, options: MarkdownOptions): string {
+  const indent = '  '.repeat(level);
+  const body = renderItemBody(item, baseUrl, options);
+  return prefixLines(body, `${indent}- `, `${indent}  `);
+}
+
+function convertBlocks(parent: Element, baseUrl?: string): string[] {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flushInline = () => {
+    const paragraph = inline
+      .replace(/\s+/g, ' ')
+      .replace(new RegExp(`^[ ${LINE_BREAK}]+|[ ${LINE_BREAK}]+$`, 'g'), '')
+      .replace(new RegExp(` ?${LINE_BREAK} ?`, 'g'), '\\\n');
+    if (paragraph) {
+      blocks.push(escapeLineStart(paragraph));
+    }
+    inline = '';
+  };
+
+  parent.childNodes.forEach(node => {
+    if (node.nodeType === ELEMENT_NODE && BLOCK_TAGS.includes((node as Element).tagName.toLowerCase())) {
+      flushInline();
+      blocks.push(...convertBlock(node as Element, baseUrl));
+    } else {
+      inline += convertInline(node, baseUrl);
+    }
+  });
+  flushInline();
+
+  return blocks;
+}
+
+function convertBlock(element: Element, baseUrl?: string): string[] {
+  const tag = element.tagName.toLowerCase();
+
+  if (/^h[1-6]$/.test(tag)) {
+    const text = convertBlocks(element, baseUrl).join(' ').replace(/\s+/g, ' ');
+    return text ? [`${'#'.repeat(parseInt(tag[1], 10))} ${text}`] : [];
+  }
+
+  switch (tag) {
+    case 'hr':
+      return ['---'];
+    case 'pre':
+      return [convertPre(element)];
+    case 'blockquote': {
+      const quoted = convertBlocks(element, baseUrl).join('\n\n');
+      return quoted ? [prefixLines(quoted, '> ')] : [];
+    }
+    case 'ul':
+    case 'ol': {
+      const list = convertList(element, baseUrl);
+      return list ? [list] : [];
+    }
+    default:
+      return convertBlocks(element, baseUrl);
+  }
+}
+
+function convertList(list: Element, baseUrl?: string): string {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  let number = parseInt(list.getAttribute('start') || '1', 10) || 1;
+
+  return Array.from(list.children)
+    .filter(child => child.tagName.toLowerCase() === 'li')
+    .map(listItem => {
+      const marker = ordered ? `${number++}. ` : '- ';
+      const body = convertBlocks(listItem, baseUrl).join('\n\n');
+      return prefixLines(body, marker, ' '.repeat(marker.length));
+    })
+    .join('\n');
+}
+
+function convertPre(pre: Element): string {
+  const code = pre.querySelector('code');
+  const language = code?.className.match(/(?:^|\s)(?:language|lang)-(\S+)/)?.[1] || '';
+  const text = (pre.textContent || '').replace(/\n$/, '');
+  // The fence has to be longer than any run of backticks inside the code
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function convertInline(node: Node, baseUrl?: string): string {
+  if (node.nodeType === TEXT_NODE) {
+    return escapeMarkdown(node.textContent || '');
+  }
+  if (node.nodeType !== ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (SKIPPED_TAGS.includes(tag)) {
+    return '';
+  }
+
+  const children = () => Array.from(element.childNodes).map(child => convertInline(child, baseUrl)).join('');
+
+  switch (tag) {
+    case 'br':
+      return LINE_BREAK;
+    case 'strong':
+    case 'b':
+      return wrapInline(children(), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(children(), '*');
+    case 'del':
+    case 's':
+    case 'strike':
+      return wrapInline(children(), '~~');
+    case 'code':
+      return inlineCode(element.textContent || '');
+    case 'a': {
+      const text = children().replace(/\s+/g, ' ').trim();
+      const href = resolveHref(element.getAttribute('href'), baseUrl);
+      if (!href) return text;
+      return text ? link(text, href) : `<${href}>`;
+    }
+    case 'img': {
+      const src = resolveHref(element.getAttribute('src'), baseUrl);
+      const alt = escapeMarkdown(element.getAttribute('alt') || '');
+      return src ? `![${alt}](${encodeUrl(src)})` : alt;
+    }
+    default:
+      // Block elements nested in inline ones (e.g. <a><div>) are flattened into the inline run
+      return BLOCK_TAGS.includes(tag) ? ` ${children()} ` : children();
+  }
+}
+
+function wrapInline(text: string, marker: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) return text;
+
+  // Keep surrounding whitespace outside of the markers, "** bold**" is not emphasis
+  const leading = text.match(/^\s*/)![0];
+  const trailing = text.match(/\s*$/)![0];
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function inlineCode(code: string): string {
+  const text = code.replace(/\s+/g, ' ');
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+function link(text: string, href?: string): string {
+  return href ? `[${text}](${encodeUrl(href)})` : text;
+}
+
+function resolveHref(href: string | null, baseUrl?: string): string | undefined {
+  if (!href || /^\s*javascript:/i.test(href)) return undefined;
+  try {
+    return new URL(href, baseUrl).href;
+  } catch (error) {
+    // Relative URL without a base, keep it as written
+    return href;
+  }
+}
+
+function encodeUrl(url: string): string {
+  return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+function escapeLineStart(text: string): string {
+  // A paragraph that happens to start like a heading, quote or list item must stay a paragraph
+  return text.replace(/^(#{1,6}\s|>|[-+]\s|\d+)([.)]\s)?/gm, (match, start: string, orderedSuffix?: string) => {
+    if (/^\d+$/.test(start)) {
+      return orderedSuffix ? `${start}\\${orderedSuffix}` : match;
+    }
+    return `\\${match}`;
+  });
+}
+
+function prefixLines(text: string, firstPrefix: string, restPrefix: string = firstPrefix): string {
+  return text
+    .split('\n')
+    .map((line, index) => {
+      const prefix = index === 0 ? firstPrefix : restPrefix;
+      // Avoid trailing whitespace on blank lines inside quotes and lists
+      return line ? `${prefix}${line}` : prefix.trimEnd();
+    })
+    .join('\n');
+}
@@ -0,0 +1,56 @@
+import { Content, ContentTreeNode } from './types.js';
+
+export interface DepthFilter {
+  minDepth?: number; // Keep items at this depth or deeper (default: 0)
+  maxDepth?: number; // Keep items at this depth or shallower (default: no limit)
+}
+
+/**
+ * Reconstructs the reply tree of a Content from the parentId of its items.
+ * Items whose parent is missing from the content (filtered out or never extracted)
+ * become roots, so no item is lost. Sibling order follows the order of content.items.
+ */
+export function buildContentTree(content: Content): ContentTreeNode[] {
+  const nodes = new Map<string, ContentTreeNode>();
+  content.items.forEach(item => {
+    nodes.set(item.id, { item, children: [] });
+  });
+
+  const roots: ContentTreeNode[] = [];
+  content.items.forEach(item => {
+    const node = nodes.get(item.id)!;
+    const parent = item.parentId !== undefined && item.parentId !== item.id
+      ? nodes.get(item.parentId)
+      : undefined;
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * Keeps the items within a depth range, e.g. { maxDepth: 1 } for the submission and its
+ * top-level comments. Items without a known depth are kept. childIds are narrowed to the
+ * remaining items; the content and its items are copied, not modified.
+ */
+export function filterByDepth(content: Content, filter: DepthFilter): Content {
+  const minDepth = filter.minDepth ?? 0;
+  const maxDepth = filter.maxDepth ?? Number.POSITIVE_INFINITY;
+  const items = content.items.filter(item =>
+    item.depth === undefined || (item.depth >= minDepth && item.depth <= maxDepth)
+  );
+  const keptIds = new Set(items.map(item => item.id));
+
+  return {
+    ...content,
+    items: items.map(item => ({
+      ...item,
+      childIds: item.childIds?.filter(id => keptIds.has(id))
+    }))
+  };
+}
@@ -1,17 +1,73 @@
+import type { ExtractorRegistry } from './registry.js';
+
 export interface ContentItem {
-  id: string; // A unique identifier for the item (e.g., a hash of its content)
+  id: string; // Stable identifier: the platform id when known (e.g. "hn:123"), else a content hash
   element: HTMLElement; // The actual DOM element
   URL?: string;
   textContent?: string;
   htmlContent?: string;
   type: "post" | "comment";
   selected: boolean;
+  parentId?: string; // id of the item this one replies to (undefined for thread roots)
+  depth?: number; // Nesting level in the thread: 0 for the submission, 1 for top-level comments, ...
+  childIds?: string[]; // ids of the direct replies, in document order
+  metadata?: ContentItemMetadata;
+  attachments?: Attachment[]; // Images, videos and link cards of the item, in document order
+  links?: ItemLink[]; // Links in the item's text, in document order
+}
+
+export interface Attachment {
+  kind: "image" | "video" | "link"; // "link" is a link preview card
+  src: string; // Absolute URL of the image or video, or the target of a link card
+  alt?: string; // Alt text, or the title of a link card
+  width?: number; // Intrinsic size in pixels, when the page states it
+  height?: number;
+  poster?: string; // Preview image of a video or link card
+}
+
+export interface ItemLink {
+  href: string; // Absolute URL as linked, e.g. a t.co redirect on Twitter/X
+  text: string; // Anchor text
+  canonicalUrl?: string; // Target spelled out by the anchor text or title when href is a redirect or shortener
+  internal: boolean; // Whether the link (its canonical URL when known) stays on the page's site
+}
+
+export interface ContentItemMetadata {
+  author?: string; // Author handle as shown by the site (without "@" or "u/" prefixes)
+  authorName?: string; // Display name shown next to the handle (Bluesky)
+  authorUrl?: string; // Absolute URL of the author's profile
+  createdAt?: string; // ISO 8601 timestamp
+  score?: number; // Points or net votes
+  likes?: number;
+  reposts?: number; // Boosts of a Mastodon status
+  replies?: number; // Number of replies/comments as reported by the site
+  title?: string; // Title of a story or post
+  linkUrl?: string; // Absolute URL a link submission points to
+  domain?: string; // Domain of linkUrl as displayed by the site
+  flags?: string[]; // Moderation state shown by the site, e.g. ["flagged", "dead"] on Hacker News
+  subreddit?: string; // Community a Reddit post belongs to, e.g. "r/programming"
+  flair?: string; // Post flair text (Reddit)
+  mediaUrls?: string[]; // Image, gallery and video URLs of a post (Reddit)
+  pollOptions?: string[]; // Options of a poll post (Reddit)
+  tags?: string[]; // Story tags (Lobsters)
+  contentWarning?: string; // Content warning the text is hidden behind (Mastodon)
+  postNumber?: number; // Position of the post in its topic, starting at 1 (Discourse)
+  replyToPostNumber?: number; // postNumber of the post this one replies to (Discourse)
+  reactions?: Record<string, number>; // Count per reaction, e.g. { "+1": 3, "heart": 1 } (GitHub)
+  isAnswer?: boolean; // Whether the comment is the accepted answer (GitHub Discussions)
+}
+
+export interface ContentTreeNode {
+  item: ContentItem;
+  children: ContentTreeNode[];
 }
 
 export interface Content {
   pageURL: string;
   title: string;
   items: ContentItem[];
+  expanded?: number; // Number of expanders clicked before extraction (set when ScraperOptions.expand is on)
+  paginationError?: { url: string; error: unknown }; // Following page that failed to load, pagination stopped before it (followPagination)
 }
 
 export interface CheckboxStyling {
@@ -25,8 +81,20 @@ export interface CheckboxStyling {
   getPositioningStyles: (targetRect: DOMRect) => { top: string; left: string };
 }
 
+// Resolves to the HTML of the page at url
+export type PageFetcher = (url: string) => Promise<string>;
+
 export interface ScraperOptions {
   includeHtml?: boolean;
   checkboxStyling?: CheckboxStyling;
   showCheckboxes?: boolean; // Controls whether checkboxes are displayed automatically
+  registry?: ExtractorRegistry; // Registry used to pick the extractor (defaults to extractorRegistry)
+  watch?: boolean; // Keep extracting items added to the page after run() (see ContentScraper.startWatching)
+  watchDebounce?: number; // Milliseconds to wait for DOM mutations to settle before re-extracting (default: 300)
+  expand?: boolean; // Click "show more", "more replies" and similar expanders before extracting (default: false)
+  expandTimeout?: number; // Overall time budget for expanding in milliseconds (default: 10000)
+  expandSettleTime?: number; // Milliseconds without DOM mutations after a round of clicks before looking again (default: 500)
+  followPagination?: boolean; // Also harvest the following pages of paginated threads (Hacker News "More" links)
+  pageFetcher?: PageFetcher; // Loads the following pages (default: same-origin fetch)
+  maxPages?: number; // Upper bound on the pages harvested per thread, including the current one (default: 10)
 }
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { ContentItem, CheckboxStyling } from './types.js';
 
+// Marks the checkbox elements injected into the page
+const CHECKBOX_ATTRIBUTE = 'data-threads-harvester-checkbox';
+
 export class UIManager {
   private checkboxes = new Map<HTMLElement, { item: ContentItem, checkboxEl: HTMLElement }>();
   private eventEmitter = new EventTarget();
@@ -12,10 +15,15 @@ export class UIManager {
   public displayCheckboxes(items: ContentItem[]): void {
     // Clean up existing checkboxes first
     this.destroy();
+    this.addCheckboxes(items);
+  }
 
+  public addCheckboxes(items: ContentItem[]): void {
+    // Adds checkboxes next to the existing ones, skipping elements that already have one
     items.forEach(item => {
-      // Skip items with missing elements
-      if (!item.element) return;
+      // Skip items with missing elements, and elements of other documents (e.g. fetched following pages)
+      if (!item.element || this.checkboxes.has(item.element)) return;
+      if (!item.element.isConnected || item.element.ownerDocument !== document) return;
       
       const checkbox = this.createCheckbox(item);
       this.positionCheckbox(checkbox, item.element);
@@ -30,6 +38,7 @@ export class UIManager {
 
   private createCheckbox(item: ContentItem): HTMLElement {
     const checkbox = document.createElement('div');
+    checkbox.setAttribute(CHECKBOX_ATTRIBUTE, '');
     
     // Apply styles from styling function or fallback to minimal defaults
     if (this.styling) {
@@ -168,6 +177,16 @@ export class UIManager {
     return selectedItems;
   }
 
+  public hasCheckboxes(): boolean {
+    return this.checkboxes.size > 0;
+  }
+
+  public isCheckboxElement(node: Node): boolean {
+    // Also recognizes checkboxes that were already removed from the DOM
+    const element = node.nodeType === 1 ? node as Element : node.parentElement;
+    return !!element?.closest(`[${CHECKBOX_ATTRIBUTE}]`);
+  }
+
   public on(eventName: 'selectionChanged', callback: (selectedItems: ContentItem[]) => void): void {
     this.eventEmitter.addEventListener(eventName, (event: any) => {
       callback(event.detail);